@@ -0,0 +1,160 @@
+/**
+ * Achievements
+ * Goals evaluated from the game events of a run, unlocked once per player and kept in localStorage.
+ * The tracker only reports what a run achieved, achievementsView.ts stores and announces it.
+ */
+
+import { GAME_SPEED_MAX, TREX_STATE } from './gameSimulation.ts';
+import type { SimulationState } from './gameSimulation.ts';
+import type { DinoGame } from './dinoGame.ts';
+import { findCollidingObstacle, getTRexHitboxes } from './collisionBoxes.ts';
+import { OBSTACLE_TYPE } from './obstacleLayout.ts';
+import type { ObstacleInfo } from './obstacleLayout.ts';
+import { getNightEndScore } from './nightCycle.ts';
+
+export const AchievementId = {
+  DUCK_PTERODACTYL: 'duck-pterodactyl',
+  SURVIVE_THREE_NIGHTS: 'survive-three-nights',
+  MAX_SPEED: 'max-speed',
+  NO_DUCK_1000: 'no-duck-1000'
+} as const;
+export type AchievementId = typeof AchievementId[keyof typeof AchievementId];
+
+export interface Achievement {
+  id: AchievementId;
+  title: string;
+  description: string;
+}
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  { id: AchievementId.DUCK_PTERODACTYL, title: 'Heads Down', description: 'Duck under a pterodactyl' },
+  { id: AchievementId.SURVIVE_THREE_NIGHTS, title: 'Night Owl', description: 'Survive three nights' },
+  { id: AchievementId.MAX_SPEED, title: 'Full Speed', description: 'Reach the maximum speed' },
+  { id: AchievementId.NO_DUCK_1000, title: 'Stiff Neck', description: 'Score 1000 points without ducking' }
+];
+
+const THREE_NIGHTS_SCORE = getNightEndScore(3); // Third night is over
+
+const NO_DUCK_SCORE = 1000;
+
+const ACHIEVEMENTS_KEY = 'tsl-dino-game-achievements';
+
+// Unlock dates (ISO) per player name and achievement
+type StoredAchievements = Record<string, Partial<Record<AchievementId, string>>>;
+
+function loadStoredAchievements(): StoredAchievements {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACHIEVEMENTS_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getUnlockedAchievements(playerName: string): Partial<Record<AchievementId, string>> {
+  return loadStoredAchievements()[playerName] ?? {};
+}
+
+/**
+ * Store an achievement for the player, returns false if it was unlocked before
+ */
+export function unlockAchievement(playerName: string, id: AchievementId): boolean {
+  const stored = loadStoredAchievements();
+  const unlocked = stored[playerName] ?? {};
+  if (unlocked[id]) return false;
+
+  unlocked[id] = new Date().toISOString();
+  stored[playerName] = unlocked;
+  localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(stored));
+  return true;
+}
+
+interface AchievementTrackerOptions {
+  trexXWorld: number;
+  trexYWorld: number;
+  isTracked: () => boolean; // False while a run doesn't count (replays, autopilot), it stays untracked until restart
+}
+
+export class AchievementTracker {
+  private options: AchievementTrackerOptions;
+  private onAchieve: (id: AchievementId) => void;
+  private tracking = false;                      // The current run can unlock achievements
+  private achieved = new Set<AchievementId>();   // Reported during this run
+  private duckedUnder = new Set<number>();       // Pterodactyls that would have hit the standing T-Rex
+  private duckedThisRun = false;
+
+  constructor(achieveCallback: (id: AchievementId) => void, options: AchievementTrackerOptions) {
+    this.onAchieve = achieveCallback;
+    this.options = options;
+  }
+
+  /**
+   * Track the runs of the game, returns a function that stops tracking again
+   */
+  subscribe(game: DinoGame): () => void {
+    const unsubscribers = [
+      game.on('gameStart', () => this.startRun()),
+      game.on('restart', () => this.startRun()),
+      game.on('duck', () => {
+        this.duckedThisRun = true;
+      }),
+      game.on('land', ({ speedDrop }) => {
+        if (speedDrop) this.duckedThisRun = true;
+      }),
+      game.on('tick', () => this.update(game.state, game.simulation.obstacles))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  private startRun(): void {
+    this.tracking = this.options.isTracked();
+    this.achieved.clear();
+    this.duckedUnder.clear();
+    this.duckedThisRun = false;
+  }
+
+  /**
+   * Evaluate the goals, every tick of a running game
+   */
+  private update(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): void {
+    if (this.tracking && !this.options.isTracked()) this.tracking = false;
+    if (!this.tracking) return;
+
+    if (state.score >= THREE_NIGHTS_SCORE) this.achieve(AchievementId.SURVIVE_THREE_NIGHTS);
+    if (state.gameSpeed >= GAME_SPEED_MAX) this.achieve(AchievementId.MAX_SPEED);
+    if (state.score >= NO_DUCK_SCORE && !this.duckedThisRun) this.achieve(AchievementId.NO_DUCK_1000);
+
+    this.updateDuckedPterodactyls(state, obstacles);
+  }
+
+  private updateDuckedPterodactyls(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): void {
+    const { trexXWorld, trexYWorld } = this.options;
+    const ducking = { centerX: trexXWorld, centerY: trexYWorld + state.jumpOffsetY, ducking: true };
+    const trexLeft = getTRexHitboxes(ducking).outer.left;
+
+    for (const obstacle of obstacles) {
+      if (obstacle.type !== OBSTACLE_TYPE.PTERODACTYL) continue;
+
+      const worldRight = obstacle.x + obstacle.width / 2 - state.distanceRan;
+
+      if (this.duckedUnder.has(obstacle.index)) {
+        // Counts once the pterodactyl is completely behind the T-Rex
+        if (worldRight < trexLeft) {
+          this.duckedUnder.delete(obstacle.index);
+          this.achieve(AchievementId.DUCK_PTERODACTYL);
+        }
+      } else if (state.trexState === TREX_STATE.DUCKING) {
+        const standing = { ...ducking, ducking: false };
+        if (findCollidingObstacle(standing, state.distanceRan, [obstacle])) {
+          this.duckedUnder.add(obstacle.index);
+        }
+      }
+    }
+  }
+
+  private achieve(id: AchievementId): void {
+    if (this.achieved.has(id)) return;
+    this.achieved.add(id);
+    this.onAchieve(id);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Achievements view
+ * Toasts announcing newly unlocked achievements and the list of all achievements of the player
+ */
+
+import { ACHIEVEMENTS, getUnlockedAchievements, unlockAchievement } from './achievements.ts';
+import type { Achievement, AchievementId } from './achievements.ts';
+import { getPlayerName } from './runHistory.ts';
+
+const TOAST_DURATION = 3000; // Milliseconds
+
+interface AchievementsViewCallbacks {
+  onOpen?: () => void;
+}
+
+export function initAchievementsView(callbacks: AchievementsViewCallbacks = {}) {
+  const openButton = document.getElementById('achievements-button') as HTMLButtonElement;
+  const panel = document.getElementById('achievements') as HTMLDivElement;
+  const closeButton = document.getElementById('achievements-close') as HTMLButtonElement;
+
+  if (!openButton || !panel || !closeButton) return;
+
+  openButton.addEventListener('click', () => {
+    if (panel.style.display !== 'none') {
+      panel.style.display = 'none';
+      return;
+    }
+    callbacks.onOpen?.();
+    renderAchievementList();
+    panel.style.display = 'block';
+  });
+
+  closeButton.addEventListener('click', () => {
+    panel.style.display = 'none';
+  });
+}
+
+/**
+ * Unlock an achievement for the current player, announced with a toast the first time
+ */
+export function announceAchievement(id: AchievementId): void {
+  if (!unlockAchievement(getPlayerName(), id)) return;
+
+  const achievement = ACHIEVEMENTS.find(entry => entry.id === id);
+  if (achievement) showToast(achievement);
+
+  const panel = document.getElementById('achievements');
+  if (panel && panel.style.display !== 'none') renderAchievementList();
+}
+
+function showToast(achievement: Achievement) {
+  const container = document.getElementById('achievement-toasts');
+  if (!container) return;
+
+  const toast = document.createElement('div');
+  toast.className = 'achievement-toast';
+
+  const label = document.createElement('span');
+  label.className = 'achievement-toast-label';
+  label.textContent = 'Achievement unlocked';
+
+  const title = document.createElement('span');
+  title.className = 'achievement-title';
+  title.textContent = achievement.title;
+
+  toast.append(label, title);
+  container.appendChild(toast);
+  setTimeout(() => toast.remove(), TOAST_DURATION);
+}
+
+function renderAchievementList() {
+  const list = document.getElementById('achievements-list');
+  if (!list) return;
+
+  const unlocked = getUnlockedAchievements(getPlayerName());
+  list.replaceChildren();
+
+  for (const achievement of ACHIEVEMENTS) {
+    const date = unlocked[achievement.id];
+
+    const item = document.createElement('li');
+    item.className = date ? 'achievement-unlocked' : 'achievement-locked';
+
+    const title = document.createElement('span');
+    title.className = 'achievement-title';
+    title.textContent = achievement.title;
+
+    const description = document.createElement('span');
+    description.className = 'achievement-description';
+    description.textContent = date
+      ? `${achievement.description} · ${new Date(date).toLocaleDateString()}`
+      : achievement.description;
+
+    item.append(title, description);
+    list.appendChild(item);
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Autopilot
+ * Built-in player for soak tests, course validation and attract mode.
+ * Reads the upcoming obstacles of the course and predicts the T-Rex a few ticks ahead with the
+ * simulation's jump physics and the original collision boxes, then presses jump/duck like a player would.
+ * Jumps are taken shortly before the latest tick that still clears every obstacle in reach,
+ * speed drops as soon as they are safe, so the T-Rex is back on the ground early for the next obstacle.
+ */
+
+import {
+  advanceJump,
+  GameInput,
+  JUMP_PHYSICS,
+  SIMULATION_TICK_SECONDS,
+  TREX_STATE
+} from './gameSimulation.ts';
+import type { JumpState, SimulationState } from './gameSimulation.ts';
+import { findCollidingObstacle } from './collisionBoxes.ts';
+import type { ObstacleInfo } from './obstacleLayout.ts';
+
+export const AUTOPILOT_CONFIG = {
+  LOOKAHEAD_TICKS: 45,     // How far ahead standing still is checked (0.75 seconds)
+  AFTER_LANDING_TICKS: 6,  // Ticks after landing a jump or speed drop still has to be clear
+  SAFETY_TICKS: 2,         // Act this many ticks before the last possible one, predictions aren't pixel exact
+  RESTART_DELAY: 1.0       // Seconds on the game over screen before restarting (attract mode)
+};
+
+interface AutopilotOptions {
+  trexXWorld: number;
+  trexYWorld: number;
+  autoRestart?: boolean; // Restart after game over, off for single evaluation runs
+}
+
+// Actions of a predicted plan, as ticks from now (undefined = never)
+interface Plan {
+  jumpAt?: number;
+  dropAt?: number;
+  duck?: boolean; // Hold duck on the ground for the whole plan
+}
+
+interface PredictedTRex extends JumpState {
+  jumping: boolean;
+  ducking: boolean;
+}
+
+export class Autopilot {
+  private options: AutopilotOptions;
+  private onInput: (input: GameInput) => void;
+  private duckHeld = false;
+  private crashedTicks = 0;
+
+  constructor(inputCallback: (input: GameInput) => void, options: AutopilotOptions) {
+    this.onInput = inputCallback;
+    this.options = options;
+  }
+
+  /**
+   * Let go of everything the autopilot holds (when switching it off)
+   */
+  release(): void {
+    if (this.duckHeld) {
+      this.duckHeld = false;
+      this.onInput(GameInput.DUCK_RELEASE);
+    }
+    this.crashedTicks = 0;
+  }
+
+  /**
+   * Decide the inputs for the next tick, call once before every simulation step
+   */
+  update(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): void {
+    switch (state.trexState) {
+      case TREX_STATE.WAITING:
+        this.onInput(GameInput.JUMP_PRESS);
+        this.onInput(GameInput.JUMP_RELEASE);
+        return;
+
+      case TREX_STATE.CRASHED:
+        this.updateCrashed();
+        return;
+
+      case TREX_STATE.PAUSED:
+        return;
+    }
+
+    this.crashedTicks = 0;
+
+    if (state.jumping) {
+      this.updateAirborne(state, obstacles);
+    } else if (state.ducking) {
+      this.updateDucking(state, obstacles);
+    } else {
+      this.updateRunning(state, obstacles);
+    }
+  }
+
+  private updateCrashed(): void {
+    if (this.duckHeld) this.release();
+    if (!this.options.autoRestart) return;
+
+    this.crashedTicks++;
+    if (this.crashedTicks * SIMULATION_TICK_SECONDS >= AUTOPILOT_CONFIG.RESTART_DELAY) {
+      this.crashedTicks = 0;
+      this.onInput(GameInput.RESTART);
+    }
+  }
+
+  private updateRunning(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): void {
+    const lookahead = AUTOPILOT_CONFIG.LOOKAHEAD_TICKS;
+    if (this.isClear(state, obstacles, {}, lookahead)) return;
+
+    // Ducking under is the cheapest way past a pterodactyl
+    if (this.isClear(state, obstacles, { duck: true }, lookahead)) {
+      this.duckHeld = true;
+      this.onInput(GameInput.DUCK_PRESS);
+      return;
+    }
+
+    // Jump just before the last tick that still works
+    const jumpNow = this.canJump(state, obstacles, 0);
+    if (jumpNow && !this.canJump(state, obstacles, AUTOPILOT_CONFIG.SAFETY_TICKS)) {
+      this.onInput(GameInput.JUMP_PRESS);
+      this.onInput(GameInput.JUMP_RELEASE); // Released before the minimum height, so still a full jump
+    } else if (!jumpNow && !this.isClear(state, obstacles, {}, 1)) {
+      // Nothing clears it and the obstacle is here: jump anyway
+      this.onInput(GameInput.JUMP_PRESS);
+      this.onInput(GameInput.JUMP_RELEASE);
+    }
+  }
+
+  private updateDucking(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): void {
+    const lookahead = AUTOPILOT_CONFIG.LOOKAHEAD_TICKS;
+
+    // Stand up once the pterodactyl has passed, or when a cactus needs a jump
+    if (this.isClear(state, obstacles, {}, lookahead) || !this.isClear(state, obstacles, { duck: true }, lookahead)) {
+      this.release();
+    }
+  }
+
+  private updateAirborne(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): void {
+    // Duck stays held through a speed drop until landing
+    if (state.speedDrop) return;
+
+    // Nothing to do if the way is clear until landing and for a while after
+    const landing = this.predictLanding(state, {});
+    const ticks = Math.max(landing + AUTOPILOT_CONFIG.AFTER_LANDING_TICKS, AUTOPILOT_CONFIG.LOOKAHEAD_TICKS);
+    if (this.isClear(state, obstacles, {}, ticks)) return;
+
+    // Drop as soon as it clears everything, leaving the most time for the next obstacle
+    if (this.canDrop(state, obstacles, 0)) {
+      this.duckHeld = true;
+      this.onInput(GameInput.DUCK_PRESS);
+    }
+  }
+
+  /**
+   * A jump starting in `delay` ticks clears everything, with or without a speed drop on the way
+   */
+  private canJump(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[], delay: number): boolean {
+    const fullJump: Plan = { jumpAt: delay };
+    const landing = this.predictLanding(state, fullJump);
+    if (this.isClear(state, obstacles, fullJump, landing + AUTOPILOT_CONFIG.AFTER_LANDING_TICKS)) return true;
+
+    // The neighbouring drop ticks have to work as well, so the plan doesn't hinge on a single tick
+    for (let dropAt = delay + 1; dropAt + 1 < landing; dropAt++) {
+      if (this.canDrop(state, obstacles, dropAt, delay) && this.canDrop(state, obstacles, dropAt + 1, delay)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * A speed drop in `delay` ticks (after a jump starting at `jumpAt`) clears everything until after landing
+   */
+  private canDrop(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[], delay: number, jumpAt?: number): boolean {
+    const plan: Plan = { jumpAt, dropAt: delay };
+    return this.isClear(state, obstacles, plan, this.predictLanding(state, plan) + AUTOPILOT_CONFIG.AFTER_LANDING_TICKS);
+  }
+
+  /**
+   * Ticks until the T-Rex is back on the ground when following the plan
+   */
+  private predictLanding(state: Readonly<SimulationState>, plan: Plan): number {
+    const trex = this.predictStart(state);
+    for (let tick = 0; tick < AUTOPILOT_CONFIG.LOOKAHEAD_TICKS * 4; tick++) {
+      const wasJumping = trex.jumping || plan.jumpAt === tick;
+      this.advance(trex, plan, tick);
+      if (wasJumping && !trex.jumping) return tick + 1;
+    }
+    return AUTOPILOT_CONFIG.LOOKAHEAD_TICKS;
+  }
+
+  /**
+   * Step a copy of the T-Rex through the plan like the simulation would and test it against the obstacles
+   */
+  private isClear(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[], plan: Plan, ticks: number): boolean {
+    const trex = this.predictStart(state);
+    let distanceRan = state.distanceRan;
+
+    for (let tick = 0; tick < ticks; tick++) {
+      this.advance(trex, plan, tick);
+      distanceRan += state.gameSpeed * SIMULATION_TICK_SECONDS;
+
+      // Pterodactyls keep flying at their own speed
+      const flightTime = (tick + 1) * SIMULATION_TICK_SECONDS;
+      const predictedObstacles = obstacles.map(obstacle => ({ ...obstacle, x: obstacle.x - obstacle.speedOffset * flightTime }));
+
+      const pose = {
+        centerX: this.options.trexXWorld,
+        centerY: this.options.trexYWorld + trex.jumpOffsetY,
+        ducking: trex.ducking
+      };
+      if (findCollidingObstacle(pose, distanceRan, predictedObstacles)) return false;
+    }
+
+    return true;
+  }
+
+  private predictStart(state: Readonly<SimulationState>): PredictedTRex {
+    return {
+      jumpOffsetY: state.jumpOffsetY,
+      jumpVelocity: state.jumpVelocity,
+      reachedMinHeight: state.reachedMinHeight,
+      speedDrop: state.speedDrop,
+      speedDropGraceTime: state.speedDropGraceTime,
+      jumping: state.jumping,
+      ducking: state.ducking
+    };
+  }
+
+  private advance(trex: PredictedTRex, plan: Plan, tick: number): void {
+    if (plan.jumpAt === tick && !trex.jumping) {
+      trex.jumping = true;
+      trex.ducking = false;
+      trex.jumpVelocity = JUMP_PHYSICS.INITIAL_JUMP_VELOCITY;
+      trex.reachedMinHeight = false;
+      trex.speedDrop = false;
+    }
+    if (plan.dropAt === tick && trex.jumping) {
+      trex.speedDrop = true;
+      trex.jumpVelocity = JUMP_PHYSICS.SPEED_DROP_VELOCITY;
+    }
+
+    if (!trex.jumping) {
+      // A speed drop lands ducking, the autopilot lets go on the next tick
+      trex.ducking = plan.duck === true && plan.jumpAt === undefined;
+      return;
+    }
+
+    if (advanceJump(trex)) {
+      trex.jumping = false;
+      trex.jumpVelocity = 0;
+      trex.reachedMinHeight = false;
+      trex.ducking = trex.speedDrop;
+      trex.speedDrop = false;
+    }
+  }
+}
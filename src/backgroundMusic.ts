@@ -0,0 +1,279 @@
+/**
+ * Adaptive background music
+ * A looping chiptune scheduled on the sound player's AudioContext through its music gain.
+ * The tempo rises with the game speed and a hi-hat layer fades in, at night the day tune crossfades to a
+ * minor night variant. Crashing ducks the music and fades it out, it starts again with the next run.
+ */
+
+import { GAME_SPEED_MAX, GAME_SPEED_START, TREX_STATE } from './gameSimulation.ts';
+import { getActiveSoundSettings, getMusicOutput, onSoundSettingsChange } from './soundPlayer.ts';
+import { getNoiseBuffer } from './soundSynth.ts';
+
+export const MUSIC_CONFIG = {
+  BPM_START: 112,          // Tempo at GAME_SPEED_START
+  BPM_MAX: 168,            // Tempo at GAME_SPEED_MAX
+  HAT_SPEED: 0.4,          // Speed progress (0..1) where the hi-hat layer starts fading in
+  SCHEDULE_AHEAD: 0.12,    // Seconds of notes scheduled in advance
+  SCHEDULE_INTERVAL: 25,   // Milliseconds between scheduler runs
+  FADE_IN: 0.3,            // Seconds
+  FADE_OUT: 0.2,           // Seconds, pausing or switching the music off
+  CRASH_DUCK: 0.3,         // Volume right after a crash
+  CRASH_FADE: 1.5,         // Seconds until the music is gone after a crash
+  CROSSFADE_SMOOTHING: 0.1 // Seconds, day/night and layer gain changes
+} as const;
+
+const STEPS_PER_BEAT = 4; // Sixteenth notes
+const STEPS_PER_BAR = 16;
+
+interface Chord {
+  root: number;    // MIDI note
+  tones: number[]; // Semitones above the root
+}
+
+// One chord per bar: C Am F G by day, Am F C E at night
+const DAY_CHORDS: Chord[] = [
+  { root: 48, tones: [0, 4, 7] },
+  { root: 45, tones: [0, 3, 7] },
+  { root: 41, tones: [0, 4, 7] },
+  { root: 43, tones: [0, 4, 7] }
+];
+const NIGHT_CHORDS: Chord[] = [
+  { root: 45, tones: [0, 3, 7] },
+  { root: 41, tones: [0, 4, 7] },
+  { root: 48, tones: [0, 4, 7] },
+  { root: 40, tones: [0, 4, 7] }
+];
+
+// States in which the T-Rex is on a run
+const RUN_STATES: readonly number[] = [TREX_STATE.RUNNING, TREX_STATE.JUMPING, TREX_STATE.DUCKING];
+
+// Small changes are skipped, reaching 0 or 1 never is
+function levelChanged(previous: number, next: number): boolean {
+  return next !== previous && (Math.abs(next - previous) > 0.01 || next === 0 || next === 1);
+}
+
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+export class BackgroundMusic {
+  private context: BaseAudioContext;
+  private musicBus: GainNode; // Fades and crash ducking
+  private dayBus: GainNode;
+  private nightBus: GainNode;
+  private hatBus: GainNode;
+
+  private enabled: boolean;  // Music on and not muted in the sound settings
+  private muted = false;     // This game muted, see DinoGame.setMuted
+  private playing = false;
+  private schedulerId: number | undefined;
+  private stopTimeoutId: number | undefined;
+  private step = 0;
+  private restartTune = false; // Set by a crash, the next run starts the tune from the top
+  private nextStepTime = 0;
+  private bpm: number = MUSIC_CONFIG.BPM_START;
+  private nightLevel = 0;
+  private hatLevel = 0;
+  private unsubscribeSettings: () => void;
+
+  constructor(output: AudioNode) {
+    this.context = output.context;
+
+    this.musicBus = this.context.createGain();
+    this.musicBus.gain.value = 0;
+    this.musicBus.connect(output);
+
+    this.dayBus = this.context.createGain();
+    this.nightBus = this.context.createGain();
+    this.nightBus.gain.value = 0;
+    this.hatBus = this.context.createGain();
+    this.hatBus.gain.value = 0;
+    for (const bus of [this.dayBus, this.nightBus, this.hatBus]) {
+      bus.connect(this.musicBus);
+    }
+
+    const settings = getActiveSoundSettings();
+    this.enabled = settings.music && !settings.muted;
+    this.unsubscribeSettings = onSoundSettingsChange(changed => {
+      this.enabled = changed.music && !changed.muted;
+    });
+  }
+
+  /**
+   * Follow the game, call once per frame
+   * nightProgress: 0 by day, 1 at night, in between while the sky fades
+   */
+  update(gameSpeed: number, nightProgress: number, trexState: number): void {
+    const shouldPlay = this.enabled && !this.muted && RUN_STATES.includes(trexState);
+    if (shouldPlay && !this.playing) {
+      this.start();
+    } else if (!shouldPlay && this.playing) {
+      this.stop(trexState === TREX_STATE.CRASHED);
+    }
+    if (!this.playing) return;
+
+    const speedProgress = Math.min(Math.max((gameSpeed - GAME_SPEED_START) / (GAME_SPEED_MAX - GAME_SPEED_START), 0), 1);
+    this.bpm = MUSIC_CONFIG.BPM_START + (MUSIC_CONFIG.BPM_MAX - MUSIC_CONFIG.BPM_START) * speedProgress;
+
+    const hatLevel = Math.min(Math.max((speedProgress - MUSIC_CONFIG.HAT_SPEED) / (1 - MUSIC_CONFIG.HAT_SPEED), 0), 1);
+    // Only changed levels are scheduled, so the automation timeline doesn't fill up every frame
+    if (levelChanged(this.nightLevel, nightProgress)) {
+      this.nightLevel = nightProgress;
+      this.setLevel(this.dayBus, 1 - nightProgress);
+      this.setLevel(this.nightBus, nightProgress);
+    }
+    if (levelChanged(this.hatLevel, hatLevel)) {
+      this.hatLevel = hatLevel;
+      this.setLevel(this.hatBus, hatLevel);
+    }
+  }
+
+  /**
+   * Mute only this music, on top of the sound settings, muting fades it out right away
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (muted && this.playing) this.stop(false);
+  }
+
+  dispose(): void {
+    this.unsubscribeSettings();
+    window.clearInterval(this.schedulerId);
+    window.clearTimeout(this.stopTimeoutId);
+    this.musicBus.disconnect();
+  }
+
+  private start() {
+    this.playing = true;
+    window.clearTimeout(this.stopTimeoutId);
+
+    // Resuming after a pause continues the tune
+    if (this.restartTune) {
+      this.step = 0;
+      this.restartTune = false;
+    }
+    this.nextStepTime = 0;
+
+    const gain = this.musicBus.gain;
+    gain.cancelScheduledValues(this.context.currentTime);
+    gain.setTargetAtTime(1, this.context.currentTime, MUSIC_CONFIG.FADE_IN / 3);
+
+    if (this.schedulerId === undefined) {
+      this.schedulerId = window.setInterval(this.schedule, MUSIC_CONFIG.SCHEDULE_INTERVAL);
+    }
+  }
+
+  private stop(crashed: boolean) {
+    this.playing = false;
+    const now = this.context.currentTime;
+    const gain = this.musicBus.gain;
+    const fade = crashed ? MUSIC_CONFIG.CRASH_FADE : MUSIC_CONFIG.FADE_OUT;
+
+    gain.cancelScheduledValues(now);
+    if (crashed) gain.setValueAtTime(gain.value * MUSIC_CONFIG.CRASH_DUCK, now);
+    gain.setTargetAtTime(0, now, fade / 3);
+    this.restartTune ||= crashed;
+
+    // Keep scheduling until the fade is over
+    this.stopTimeoutId = window.setTimeout(() => {
+      window.clearInterval(this.schedulerId);
+      this.schedulerId = undefined;
+    }, fade * 1000);
+  }
+
+  private stepDuration(): number {
+    return 60 / this.bpm / STEPS_PER_BEAT;
+  }
+
+  private schedule = () => {
+    const context = this.context;
+    // Nothing plays before the first gesture unlocks audio
+    if (context.state !== 'running') return;
+
+    if (this.nextStepTime < context.currentTime) {
+      this.nextStepTime = context.currentTime + 0.05;
+    }
+    while (this.nextStepTime < context.currentTime + MUSIC_CONFIG.SCHEDULE_AHEAD) {
+      this.scheduleStep(this.step, this.nextStepTime);
+      this.nextStepTime += this.stepDuration();
+      this.step = (this.step + 1) % (STEPS_PER_BAR * DAY_CHORDS.length);
+    }
+  };
+
+  private scheduleStep(step: number, time: number) {
+    const bar = Math.floor(step / STEPS_PER_BAR);
+    const stepInBar = step % STEPS_PER_BAR;
+    const dayChord = DAY_CHORDS[bar];
+    const nightChord = NIGHT_CHORDS[bar];
+    const stepDuration = this.stepDuration();
+
+    // Bass on eighth notes, jumping an octave on the offbeat
+    if (stepInBar % 2 === 0) {
+      const octave = stepInBar % 4 === 2 ? 12 : 0;
+      this.playNote(this.dayBus, 'square', time, stepDuration * 1.5, dayChord.root - 12 + octave, 0.1);
+      this.playNote(this.nightBus, 'triangle', time, stepDuration * 1.8, nightChord.root - 12 + octave, 0.2);
+    }
+
+    // Day: fast square arpeggio, night: slow triangle bells
+    const dayTone = dayChord.tones[stepInBar % dayChord.tones.length];
+    this.playNote(this.dayBus, 'square', time, stepDuration * 0.8, dayChord.root + 12 + dayTone, 0.035);
+    if (stepInBar % 4 === 0) {
+      const nightTone = nightChord.tones[(stepInBar / 4) % nightChord.tones.length];
+      this.playNote(this.nightBus, 'triangle', time, stepDuration * 6, nightChord.root + 24 + nightTone, 0.08);
+    }
+
+    // Hi-hat on the offbeats
+    if (stepInBar % 4 === 2) {
+      this.playHat(time);
+    }
+  }
+
+  private playNote(bus: GainNode, type: OscillatorType, time: number, duration: number, note: number, peak: number) {
+    const context = this.context;
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.value = midiToFrequency(note);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(peak, time + 0.005);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+
+    oscillator.connect(envelope);
+    envelope.connect(bus);
+    oscillator.start(time);
+    oscillator.stop(time + duration);
+  }
+
+  private playHat(time: number) {
+    const context = this.context;
+    const noise = context.createBufferSource();
+    noise.buffer = getNoiseBuffer(context);
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 7000;
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.08, time);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, time + 0.04);
+
+    noise.connect(filter);
+    filter.connect(envelope);
+    envelope.connect(this.hatBus);
+    noise.start(time);
+    noise.stop(time + 0.04);
+  }
+
+  private setLevel(bus: GainNode, level: number) {
+    bus.gain.setTargetAtTime(level, this.context.currentTime, MUSIC_CONFIG.CROSSFADE_SMOOTHING);
+  }
+}
+
+/**
+ * Music on the sound player's mixer, null without Web Audio (HTMLAudio plays no music)
+ */
+export function createBackgroundMusic(): BackgroundMusic | null {
+  const output = getMusicOutput();
+  return output ? new BackgroundMusic(output) : null;
+}
@@ -6,7 +6,7 @@
 import * as THREE from 'three/webgpu';
 import { gsap } from 'gsap';
 import type { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { PLANE_HEIGHT, PLANE_WIDTH } from './main.ts';
+import { PLANE_HEIGHT, PLANE_WIDTH } from './dinoGame.ts';
 
 export class CameraAnimation {
   private camera: THREE.PerspectiveCamera;
@@ -0,0 +1,171 @@
+/**
+ * Collision boxes from the original Chrome dino game
+ * Per-sprite box sets (pixels, top-left origin) and CPU hit testing in world units
+ */
+
+import { OBSTACLE_SIZE, OBSTACLE_TYPE } from './obstacleLayout.ts';
+import type { ObstacleInfo, ObstacleType } from './obstacleLayout.ts';
+
+export interface CollisionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// World-space box (world units, Y up)
+export interface WorldBox {
+  left: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+// T-Rex position (world coordinates, matching the fragment shader)
+export const TREX_X_WORLD = -2.79;
+export const TREX_Y_WORLD = -0.41;
+
+// Sprite sizes in pixels (LDPI, matching the sprites sampled by the shader)
+export const TREX_SIZE = {
+  RUNNING: { width: 44, height: 47 },
+  DUCKING: { width: 59, height: 47 }
+} as const;
+
+// Horizontal sprite offset when ducking (matches tslTRex)
+const TREX_DUCKING_OFFSET_X = 0.06;
+
+const PIXELS_PER_UNIT = 100;
+
+export const TREX_COLLISION_BOXES = {
+  RUNNING: [
+    { x: 22, y: 0, width: 17, height: 16 },
+    { x: 1, y: 18, width: 30, height: 9 },
+    { x: 10, y: 35, width: 14, height: 8 },
+    { x: 1, y: 24, width: 29, height: 5 },
+    { x: 5, y: 30, width: 21, height: 4 },
+    { x: 9, y: 34, width: 15, height: 4 }
+  ],
+  DUCKING: [
+    { x: 1, y: 18, width: 55, height: 25 }
+  ]
+} as const satisfies Record<string, readonly CollisionBox[]>;
+
+export const OBSTACLE_COLLISION_BOXES: Record<ObstacleType, readonly CollisionBox[]> = {
+  [OBSTACLE_TYPE.CACTUS_SMALL]: [
+    { x: 0, y: 7, width: 5, height: 27 },
+    { x: 4, y: 0, width: 6, height: 34 },
+    { x: 10, y: 4, width: 7, height: 14 }
+  ],
+  [OBSTACLE_TYPE.CACTUS_LARGE]: [
+    { x: 0, y: 12, width: 7, height: 38 },
+    { x: 8, y: 0, width: 7, height: 49 },
+    { x: 13, y: 10, width: 10, height: 38 }
+  ],
+  [OBSTACLE_TYPE.PTERODACTYL]: [
+    { x: 15, y: 15, width: 16, height: 5 },
+    { x: 18, y: 21, width: 24, height: 6 },
+    { x: 2, y: 14, width: 4, height: 3 },
+    { x: 6, y: 10, width: 4, height: 7 },
+    { x: 10, y: 8, width: 6, height: 9 }
+  ]
+};
+
+export interface TRexPose {
+  centerX: number;  // Sprite center X (world units, before ducking offset)
+  centerY: number;  // Sprite center Y (world units, including jump offset)
+  ducking: boolean;
+}
+
+export interface HitboxSet {
+  outer: WorldBox;
+  boxes: WorldBox[];
+}
+
+/**
+ * Same overlap test as the original boxCompare (touching edges don't collide)
+ */
+export function boxesOverlap(a: WorldBox, b: WorldBox): boolean {
+  return a.left < b.left + b.width &&
+    a.left + a.width > b.left &&
+    a.bottom < b.bottom + b.height &&
+    a.bottom + a.height > b.bottom;
+}
+
+function toWorldBox(box: CollisionBox, centerX: number, centerY: number, spriteWidth: number, spriteHeight: number): WorldBox {
+  const spriteLeft = centerX - spriteWidth / PIXELS_PER_UNIT / 2;
+  const spriteTop = centerY + spriteHeight / PIXELS_PER_UNIT / 2;
+  return {
+    left: spriteLeft + box.x / PIXELS_PER_UNIT,
+    bottom: spriteTop - (box.y + box.height) / PIXELS_PER_UNIT,
+    width: box.width / PIXELS_PER_UNIT,
+    height: box.height / PIXELS_PER_UNIT
+  };
+}
+
+/**
+ * Bounding box shrunk by 1px on each side, like the original broad-phase check
+ */
+function toOuterBox(centerX: number, centerY: number, spriteWidth: number, spriteHeight: number): WorldBox {
+  return toWorldBox({ x: 1, y: 1, width: spriteWidth - 2, height: spriteHeight - 2 }, centerX, centerY, spriteWidth, spriteHeight);
+}
+
+export function getTRexHitboxes(pose: TRexPose): HitboxSet {
+  const size = pose.ducking ? TREX_SIZE.DUCKING : TREX_SIZE.RUNNING;
+  const boxes = pose.ducking ? TREX_COLLISION_BOXES.DUCKING : TREX_COLLISION_BOXES.RUNNING;
+  const centerX = pose.centerX + (pose.ducking ? TREX_DUCKING_OFFSET_X : 0);
+
+  return {
+    outer: toOuterBox(centerX, pose.centerY, size.width, size.height),
+    boxes: boxes.map(box => toWorldBox(box, centerX, pose.centerY, size.width, size.height))
+  };
+}
+
+/**
+ * Obstacle boxes at a world X, with the original group adjustment:
+ * the middle box stretches and the last box moves to the right edge
+ */
+export function getObstacleHitboxes(obstacle: ObstacleInfo, worldX: number): HitboxSet {
+  const size = OBSTACLE_SIZE[obstacle.type];
+  const width = size.width * obstacle.size;
+  const boxes = OBSTACLE_COLLISION_BOXES[obstacle.type].map(box => ({ ...box }));
+
+  if (obstacle.size > 1) {
+    boxes[1].width = width - boxes[0].width - boxes[2].width;
+    boxes[2].x = width - boxes[2].width;
+  }
+
+  return {
+    outer: toOuterBox(worldX, obstacle.heightOffset, width, size.height),
+    boxes: boxes.map(box => toWorldBox(box, worldX, obstacle.heightOffset, width, size.height))
+  };
+}
+
+export function hitboxesCollide(a: HitboxSet, b: HitboxSet): boolean {
+  if (!boxesOverlap(a.outer, b.outer)) return false;
+
+  return a.boxes.some(boxA => b.boxes.some(boxB => boxesOverlap(boxA, boxB)));
+}
+
+// Obstacles further than this from the T-Rex can't touch it (widest sprite is 75px)
+const COLLISION_SEARCH_RANGE = 1.0;
+
+/**
+ * Find the obstacle of the course the T-Rex collides with at the given distance, if any
+ */
+export function findCollidingObstacle(
+  pose: TRexPose,
+  distanceRan: number,
+  obstacles: readonly ObstacleInfo[]
+): ObstacleInfo | null {
+  const trexHitboxes = getTRexHitboxes(pose);
+
+  for (const obstacle of obstacles) {
+    if (Math.abs(obstacle.x - distanceRan - pose.centerX) > COLLISION_SEARCH_RANGE) continue;
+
+    if (hitboxesCollide(trexHitboxes, getObstacleHitboxes(obstacle, obstacle.x - distanceRan))) {
+      return obstacle;
+    }
+  }
+
+  return null;
+}
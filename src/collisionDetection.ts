@@ -1,12 +1,15 @@
 /**
  * Collision detection system
  * Transport detected collisions from GPU back to CPU
- * Uses a low-res offscreen render target and pixel readback
+ * Renders a low-res offscreen pass around the T-Rex in which the fragment shader counts
+ * collision pixels into an atomic storage buffer, so only 4 bytes are read back per check
+ * Falls back to full pixel readback on the WebGL backend (no storage writes in fragment shaders)
  * Optionally displays the readback texture in debug mode
  */
 
 import * as THREE from 'three/webgpu';
-import { texture } from 'three/tsl';
+import { atomicStore, Fn, storage, texture, uint, uniform } from 'three/tsl';
+import type { ShaderNodeObject } from 'three/tsl';
 
 // Collision detection configuration
 const READBACK_WIDTH = 256;
@@ -37,6 +40,13 @@ export class CollisionDetectionSystem {
   private pixelBufferTexture: THREE.DataTexture | null = null;
   private readbackDisplayMesh: THREE.Mesh | null = null;
   private options: CollisionSystemOptions;
+  private counterAttribute: THREE.StorageBufferAttribute;
+  private resetCounterCompute: THREE.ComputeNode;
+  private readbackPending = false;
+
+  // Shader nodes: atomic collision pixel counter and flag enabling it during the collision pass only
+  readonly collisionCounter: ShaderNodeObject<any>;
+  readonly uniformCollisionPass = uniform(0);
 
   constructor(
     renderer: THREE.WebGPURenderer,
@@ -67,6 +77,13 @@ export class CollisionDetectionSystem {
     );
     this.readbackCamera.position.z = options.cameraZ;
 
+    // Single atomic uint, reset by a tiny compute pass before every check
+    this.counterAttribute = new THREE.StorageBufferAttribute(new Uint32Array(1), 1);
+    this.collisionCounter = storage(this.counterAttribute, 'uint', 1).toAtomic();
+    this.resetCounterCompute = Fn(() => {
+      atomicStore(this.collisionCounter.element(0), uint(0));
+    })().compute(1);
+
     // Initialize debug display if in debug mode
     if (options.debugMode) {
       this.initDebugDisplay();
@@ -108,7 +125,28 @@ export class CollisionDetectionSystem {
     this.scene.add(this.readbackDisplayMesh);
   }
 
+  /**
+   * Whether a check is still waiting for the GPU, new checks are skipped meanwhile
+   */
+  get isPending(): boolean {
+    return this.readbackPending;
+  }
+
   async detectCollision(options: CollisionDetectionOptions): Promise<boolean> {
+    this.readbackPending = true;
+    try {
+      return await this.runCollisionPass(options);
+    } finally {
+      this.readbackPending = false;
+    }
+  }
+
+  private async runCollisionPass(options: CollisionDetectionOptions): Promise<boolean> {
+    const useCounter = this.usesCollisionCounter();
+    if (useCounter) {
+      this.renderer.compute(this.resetCounterCompute);
+    }
+
     // Hide the readback display mesh temporarily to avoid recursion
     if (this.readbackDisplayMesh) {
       this.readbackDisplayMesh.visible = false;
@@ -116,15 +154,43 @@ export class CollisionDetectionSystem {
 
     // Render main scene to readback target using orthographic camera
     const originalTarget = this.renderer.getRenderTarget();
+    this.uniformCollisionPass.value = 1;
     this.renderer.setRenderTarget(this.readbackTarget);
     this.renderer.render(this.scene, this.readbackCamera);
     this.renderer.setRenderTarget(originalTarget);
+    this.uniformCollisionPass.value = 0;
 
     // Show the readback display mesh again
     if (this.readbackDisplayMesh) {
       this.readbackDisplayMesh.visible = true;
     }
 
+    // Full pixel readback is only needed for the WebGL fallback and the debug display
+    const readbackPixelBuffer = !useCounter || this.pixelBufferTexture
+      ? await this.readPixels()
+      : null;
+
+    let collisionPixelCount: number;
+    if (useCounter) {
+      const counterBuffer = await this.renderer.getArrayBufferAsync(this.counterAttribute);
+      collisionPixelCount = new Uint32Array(counterBuffer)[0];
+    } else {
+      collisionPixelCount = countCollisionPixels(readbackPixelBuffer!, options.collisionColor);
+    }
+
+    if (collisionPixelCount > 0) {
+      if (this.options.debugMode) console.log(`COLLISION DETECTED! Found ${collisionPixelCount} collision pixels`);
+      return true;
+    }
+
+    return false;
+  }
+
+  private usesCollisionCounter(): boolean {
+    return 'isWebGPUBackend' in this.renderer.backend;
+  }
+
+  private async readPixels(): Promise<Uint8Array> {
     // Read back the entire readback target
     const width = this.readbackTarget.width;
     const height = this.readbackTarget.height;
@@ -134,7 +200,7 @@ export class CollisionDetectionSystem {
       0,
       width,
       height
-    );
+    ) as Uint8Array;
 
     // Update the display texture with readback data (only in debug mode)
     if (this.pixelBufferTexture) {
@@ -143,36 +209,40 @@ export class CollisionDetectionSystem {
       this.pixelBufferTexture.needsUpdate = true;
     }
 
-    // Check for collision color pixels in the readback
-    const targetColor = new THREE.Color(options.collisionColor);
-    const targetR = targetColor.r;
-    const targetG = targetColor.g;
-    const targetB = targetColor.b;
+    return readbackPixelBuffer;
+  }
 
-    let collisionPixelCount = 0;
+  dispose(): void {
+    this.readbackTarget.dispose();
+    this.pixelBufferTexture?.dispose();
+    this.readbackDisplayMesh?.removeFromParent();
+  }
+}
 
-    for (let i = 0; i < readbackPixelBuffer.length; i += 4) {
-      const r = readbackPixelBuffer[i] / 255;
-      const g = readbackPixelBuffer[i + 1] / 255;
-      const b = readbackPixelBuffer[i + 2] / 255;
+function countCollisionPixels(readbackPixelBuffer: Uint8Array, collisionColor: string): number {
+  // Check for collision color pixels in the readback
+  const targetColor = new THREE.Color(collisionColor);
+  const targetR = targetColor.r;
+  const targetG = targetColor.g;
+  const targetB = targetColor.b;
 
-      // Check if this pixel matches the collision color (with small tolerance for GPU precision)
-      const isCollisionColor =
-        Math.abs(r - targetR) < COLLISION_COLOR_DETECTION_TOLERANCE &&
-        Math.abs(g - targetG) < COLLISION_COLOR_DETECTION_TOLERANCE &&
-        Math.abs(b - targetB) < COLLISION_COLOR_DETECTION_TOLERANCE;
+  let collisionPixelCount = 0;
 
-      if (isCollisionColor) {
-        collisionPixelCount++;
-      }
-    }
+  for (let i = 0; i < readbackPixelBuffer.length; i += 4) {
+    const r = readbackPixelBuffer[i] / 255;
+    const g = readbackPixelBuffer[i + 1] / 255;
+    const b = readbackPixelBuffer[i + 2] / 255;
 
-    if (collisionPixelCount > 0) {
-      console.log(`COLLISION DETECTED! Found ${collisionPixelCount} collision pixels`);
-      return true;
-    }
+    // Check if this pixel matches the collision color (with small tolerance for GPU precision)
+    const isCollisionColor =
+      Math.abs(r - targetR) < COLLISION_COLOR_DETECTION_TOLERANCE &&
+      Math.abs(g - targetG) < COLLISION_COLOR_DETECTION_TOLERANCE &&
+      Math.abs(b - targetB) < COLLISION_COLOR_DETECTION_TOLERANCE;
 
-    return false;
+    if (isCollisionColor) {
+      collisionPixelCount++;
+    }
   }
 
+  return collisionPixelCount;
 }
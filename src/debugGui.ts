@@ -5,19 +5,13 @@
 
 import { GUI } from 'dat.gui';
 import * as THREE from 'three/webgpu';
-import { TREX_STATE } from './tsl/tslTRex.ts';
-import { clearHighScore } from './highScore.ts';
+import { TREX_STATE } from './gameSimulation.ts';
+import type { SimulationConfig, SimulationState } from './gameSimulation.ts';
+import { getNextNightScore } from './nightCycle.ts';
 import type { uniform } from 'three/tsl';
 
-export interface GameOptions {
-  gameSpeed: number;
-  gameSpeedAcceleration: number;
-  trexState: number;
-  jumpOffsetY: number;
-  score: number;
+export interface GameOptions extends SimulationConfig {
   hiScore: number;
-  scoreCoefficient: number;
-  distanceRan: number;
   collisionColor: string;
   // Background gradient colors
   bgBottomLeft: string;
@@ -30,13 +24,10 @@ export interface GameOptions {
   referenceColorShift: boolean;
   referenceScale: number;
   cameraAnimationEnabled: boolean;
+  autopilotEnabled: boolean;
 }
 
 interface GameUniforms {
-  uniformDistanceRan: ReturnType<typeof uniform>;
-  uniformTRexState: ReturnType<typeof uniform>;
-  uniformJumpOffsetY: ReturnType<typeof uniform>;
-  uniformScore: ReturnType<typeof uniform>;
   uniformHiScore: ReturnType<typeof uniform>;
   uniformCollisionColor: ReturnType<typeof uniform>;
 }
@@ -50,11 +41,13 @@ interface BackgroundUniforms {
 
 export function initDebugGui(
   options: GameOptions,
+  gameState: SimulationState,
   uniforms: GameUniforms,
   backgroundUniforms: BackgroundUniforms,
-  distanceRanRef: { value: number },
   cameraAnimationCallback?: (enabled: boolean) => void,
-  camera?: THREE.PerspectiveCamera
+  camera?: THREE.PerspectiveCamera,
+  autopilotCallback?: (enabled: boolean) => void,
+  clearHighScoreCallback?: () => void
 ): GUI | null {
   const urlParams = new URLSearchParams(window.location.search);
   const DEBUG_MODE = urlParams.has('debug');
@@ -65,13 +58,10 @@ export function initDebugGui(
 
   const gui = new GUI();
 
-  gui.add(options, 'distanceRan', 0, 10000, 0.1).onChange((value: number) => {
-    uniforms.uniformDistanceRan.value = value;
-  });
+  // Simulation state is copied to the shader uniforms every frame
+  gui.add(gameState, 'distanceRan', 0, 10000, 0.1);
 
-  gui.add(options, 'gameSpeed', 0.5, 10, 0.1).onChange(() => {
-    // Game speed is stored in options but not needed in shader
-  });
+  gui.add(gameState, 'gameSpeed', 0.5, 10, 0.1);
 
   gui.add(options, 'gameSpeedAcceleration', 0, 0.1, 0.001);
 
@@ -83,24 +73,27 @@ export function initDebugGui(
     'Ducking': TREX_STATE.DUCKING,
     'Crashed': TREX_STATE.CRASHED
   };
-  gui.add(options, 'trexState', stateNames).name('T-Rex State').onChange((value: number) => {
-    uniforms.uniformTRexState.value = value;
+  gui.add(gameState, 'trexState', stateNames).name('T-Rex State').onChange((value: number | string) => {
+    // dat.GUI hands back option values as strings
+    gameState.trexState = Number(value);
   });
 
-  gui.add(options, 'jumpOffsetY', -0.5, 1.5, 0.01).onChange((value: number) => {
-    uniforms.uniformJumpOffsetY.value = value;
-  });
+  gui.add(gameState, 'jumpOffsetY', -0.5, 1.5, 0.01);
 
-  gui.add(options, 'score', 0, 99999, 1).onChange((value: number) => {
-    uniforms.uniformScore.value = value;
-  });
+  gui.add(gameState, 'score', 0, 99999, 1);
 
   gui.add(options, 'scoreCoefficient', 0.05, 10, 0.05);
 
+  // Input forgiveness, 0 disables (part of the simulation config, so replays keep their values)
+  const jumpFolder = gui.addFolder('Jump Timing');
+  jumpFolder.add(options, 'jumpBufferTime', 0, 0.3, 0.01).name('Jump Buffer (s)');
+  jumpFolder.add(options, 'speedDropGraceTime', 0, 0.3, 0.01).name('Drop Grace (s)');
+  jumpFolder.add(options, 'coyoteTime', 0, 0.3, 0.01).name('Coyote Time (s)');
+
   // Add button to clear high score
   const clearHiScore = {
     clear: () => {
-      clearHighScore();
+      clearHighScoreCallback?.();
       options.hiScore = 0;
       uniforms.uniformHiScore.value = 0;
       console.log('High score cleared!');
@@ -112,17 +105,14 @@ export function initDebugGui(
   const triggerNextNight = {
     trigger: () => {
       // Calculate the next night trigger point
-      const currentScore = options.score;
-      const nextNightScore = Math.ceil(currentScore / 700) * 700;
+      const nextNightScore = getNextNightScore(gameState.score);
 
       // Convert score back to distanceRan using the coefficient
       // score = distanceRan * scoreCoefficient, so distanceRan = score / scoreCoefficient
-      const targetDistance = nextNightScore / options.scoreCoefficient;
-      distanceRanRef.value = targetDistance;
+      gameState.distanceRan = nextNightScore / options.scoreCoefficient;
 
       // Update score immediately
-      options.score = nextNightScore;
-      uniforms.uniformScore.value = options.score;
+      gameState.score = nextNightScore;
     }
   };
   gui.add(triggerNextNight, 'trigger').name('Trigger Next Night');
@@ -151,6 +141,10 @@ export function initDebugGui(
     gui.add(options, 'cameraAnimationEnabled').name('CamAnimation').onChange(cameraAnimationCallback);
   }
 
+  if (autopilotCallback) {
+    gui.add(options, 'autopilotEnabled').name('Autopilot').onChange(autopilotCallback);
+  }
+
   // Camera position logging
   if (camera) {
     const cameraUtils = {
@@ -102,7 +102,9 @@ export function getPointerType(): 'touch' | 'mouse' | 'unknown' {
 
 
 export function isIOS(): boolean {
-  return /iPad|iPhone|iPod/.test(navigator.userAgent) && !(window as any).MSStream;
+  // iPadOS 13+ reports itself as a Mac, but Macs have no touch screen
+  const iPadOS = navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1;
+  return (/iPad|iPhone|iPod/.test(navigator.userAgent) || iPadOS) && !(window as any).MSStream;
 }
 
 export function isAndroid(): boolean {
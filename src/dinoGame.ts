@@ -0,0 +1,668 @@
+/**
+ * Dino game instance
+ * Everything one game needs: renderer, shader, simulation, collision detection, controls and the game loop.
+ * A game renders into its container and follows its size, so several games can run on one page.
+ * The game page (main.ts), the <tsl-dino-game> element and embedders all create games with createDinoGame().
+ */
+
+import * as THREE from 'three/webgpu'
+import { texture, uniform, uniformArray } from 'three/tsl';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
+import {
+  createDefaultConfig,
+  GameInput,
+  GameSimulation,
+  interpolateState,
+  SIMULATION_TICK_SECONDS,
+  TREX_STATE
+} from './gameSimulation.ts';
+import type { SimulationConfig, SimulationEvent, SimulationState } from './gameSimulation.ts';
+import { DEFAULT_COURSE_SEED } from './obstacleLayout.ts';
+import type { ObstacleInfo } from './obstacleLayout.ts';
+import { TRexControls } from './tRexControls.ts';
+import { getTouchSettings, TouchControlMode } from './inputBindings.ts';
+import type { TouchSettings } from './inputBindings.ts';
+import { createFragmentShader } from './tsl/fragmentShader.ts';
+import { MAX_VISIBLE_OBSTACLES } from './tsl/tslObstacle.ts';
+import { tslBackground } from './tsl/tslBackground.ts';
+import { CollisionDetectionSystem } from './collisionDetection.ts';
+import { HitboxCollisionSystem } from './hitboxCollision.ts';
+import { TREX_X_WORLD, TREX_Y_WORLD } from './collisionBoxes.ts';
+import { calculateResponsiveCameraZ } from './cameraAnimation.ts';
+import { subscribeSoundEffects, toggleMute } from './soundPlayer.ts';
+import { createBackgroundMusic } from './backgroundMusic.ts';
+import type { BackgroundMusic } from './backgroundMusic.ts';
+import { getCurrentNight, getNightProgress } from './nightCycle.ts';
+import { GameEventBus } from './gameEvents.ts';
+import type { GameEventListener, GameEventType } from './gameEvents.ts';
+
+// Base plane dimensions (world units)
+export const PLANE_WIDTH = 6;
+export const PLANE_HEIGHT = 1.5;
+
+// Camera settings
+const CAMERA_FOV = 78;
+const CAMERA_NEAR = 0.1;
+const CAMERA_FAR = 100;
+
+// Longest frame the simulation catches up on (avoids a spiral of death after stalls)
+const MAX_FRAME_DELTA = 0.25;
+
+// Default collision color
+const DEFAULT_COLLISION_COLOR = new THREE.Color(0x444444);
+
+// Collision backend: 'readback' (shader pixels) or 'hitbox' (CPU collision boxes)
+export type CollisionBackend = 'readback' | 'hitbox';
+
+// Settings read every frame, so changes (e.g. from the debug GUI) apply right away
+export interface DinoGameSettings extends SimulationConfig {
+  hiScore: number;
+  collisionColor: string;
+  // Background gradient colors
+  bgBottomLeft: string;
+  bgBottomRight: string;
+  bgTopLeft: string;
+  bgTopRight: string;
+}
+
+// Colors an embedder can change at runtime
+export type DinoGameTheme = Pick<DinoGameSettings, 'collisionColor' | 'bgBottomLeft' | 'bgBottomRight' | 'bgTopLeft' | 'bgTopRight'>;
+
+export function createDefaultSettings(): DinoGameSettings {
+  return {
+    ...createDefaultConfig(),
+    hiScore: 0,
+    collisionColor: '#' + DEFAULT_COLLISION_COLOR.getHexString(),
+    bgBottomLeft: '#dc2626',
+    bgBottomRight: '#7c3aed',
+    bgTopLeft: '#059669',
+    bgTopRight: '#1e40af'
+  };
+}
+
+// Hooks for whoever drives the game beyond player input (replays, autopilot, achievements)
+export interface DinoGameHooks {
+  acceptInput?: (input: GameInput) => boolean; // Player inputs are dropped when this returns false
+  beforeStep?: () => void;                     // Queue scripted inputs for the coming tick
+  afterStep?: () => void;
+  isReplaying?: () => boolean;                 // Replays crash on their recorded tick and set no high scores
+  // Raw simulation events (e.g. inputs for replays), before they are translated into game events
+  onSimulationEvent?: (event: SimulationEvent) => void;
+  onFrame?: () => void;
+}
+
+export interface DinoGameOptions extends DinoGameHooks {
+  seed?: number;                       // Obstacle course seed
+  settings?: DinoGameSettings;         // Used by reference, defaults to createDefaultSettings()
+  collisionBackend?: CollisionBackend; // Default 'readback'
+  debugMode?: boolean;                 // Runs the other collision backend alongside and shows its debug output
+  sound?: boolean;                     // Default true
+  music?: boolean;                     // Adaptive background music, played while the sound settings have it on
+  globalKeyboard?: boolean;            // Read keys on the whole page instead of only while the game has focus
+  mobileButtons?: boolean;             // Use the page's on-screen jump/duck buttons
+  autoStart?: boolean;                 // Start running without waiting for the first jump
+}
+
+function createGameUniforms(state: SimulationState, seed: number, settings: DinoGameSettings) {
+  return {
+    uniformDistanceRan: uniform(state.distanceRan),
+    uniformTRexState: uniform(state.trexState),
+    uniformPaused: uniform(0),
+    uniformAnimTime: uniform(0), // Sprite animation time, stands still while paused
+    uniformJumpOffsetY: uniform(state.jumpOffsetY),
+    uniformScore: uniform(state.score),
+    uniformSeed: uniform(seed, 'uint'),
+    uniformHiScore: uniform(settings.hiScore),
+    uniformCollisionColor: uniform(new THREE.Color(settings.collisionColor)),
+    // Background gradient uniforms
+    uniformBgBottomLeft: uniform(new THREE.Color(settings.bgBottomLeft)),
+    uniformBgBottomRight: uniform(new THREE.Color(settings.bgBottomRight)),
+    uniformBgTopLeft: uniform(new THREE.Color(settings.bgTopLeft)),
+    uniformBgTopRight: uniform(new THREE.Color(settings.bgTopRight))
+  };
+}
+
+export class DinoGame {
+  readonly container: HTMLElement;
+  readonly settings: DinoGameSettings;
+  readonly events = new GameEventBus();
+  readonly simulation: GameSimulation;
+  readonly scene = new THREE.Scene();
+  readonly camera: THREE.PerspectiveCamera;
+  readonly renderer: THREE.WebGPURenderer;
+  readonly controls: OrbitControls;
+  readonly uniforms: ReturnType<typeof createGameUniforms>;
+
+  private options: DinoGameOptions;
+  private collisionBackend: CollisionBackend;
+  private debugMode: boolean;
+  private trexControls: TRexControls;
+  private collisionSystem: CollisionDetectionSystem;
+  private hitboxCollisionSystem: HitboxCollisionSystem;
+  private resizeObserver: ResizeObserver;
+  private mesh: THREE.Mesh;
+  private spriteTexture: THREE.Texture;
+  private clock = new THREE.Clock();
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+
+  // Visible obstacles of the course, packed as vec4(course X, height offset, type, group size - 1)
+  private obstacleUniformValues = Array.from({ length: MAX_VISIBLE_OBSTACLES }, () => new THREE.Vector4());
+  private uniformObstacles = uniformArray(this.obstacleUniformValues, 'vec4');
+  private uniformObstacleCount = uniform(0, 'int');
+
+  // Inputs are queued and applied on the next simulation tick
+  private pendingInputs: GameInput[] = [];
+  private tickAccumulator = 0;
+  private lastState: SimulationState;
+  private currentNight = 0; // 0 by day
+  private unsubscribeSounds: (() => void) | null = null;
+  private music: BackgroundMusic | null;
+  private destroyed = false;
+
+  constructor(container: HTMLElement, options: DinoGameOptions = {}) {
+    this.container = container;
+    this.options = options;
+    this.settings = options.settings ?? createDefaultSettings();
+    this.collisionBackend = options.collisionBackend ?? 'readback';
+    this.debugMode = options.debugMode ?? false;
+
+    this.music = options.music ? createBackgroundMusic() : null;
+    this.setMuted(options.sound === false);
+
+    /*
+      ==== SIMULATION ====
+    */
+    this.simulation = new GameSimulation({
+      config: this.settings, // The simulation config stays editable in the debug GUI
+      seed: options.seed,
+      detectCollision: (state, obstacles) => this.detectHitboxCollision(state, obstacles),
+      onEvent: event => this.handleSimulationEvent(event)
+    });
+    this.lastState = { ...this.simulation.state };
+    this.uniforms = createGameUniforms(this.simulation.state, options.seed ?? DEFAULT_COURSE_SEED, this.settings);
+
+    /*
+      ==== RENDERER ====
+    */
+    const { width, height } = this.containerSize();
+    this.camera = new THREE.PerspectiveCamera(CAMERA_FOV, width / height, CAMERA_NEAR, CAMERA_FAR);
+    // Set responsive camera z position
+    const initialCameraZ = calculateResponsiveCameraZ(this.camera);
+    this.camera.position.z = initialCameraZ;
+
+    this.renderer = new THREE.WebGPURenderer({ alpha: true, antialias: true });
+    this.renderer.setSize(width, height);
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    this.renderer.domElement.style.display = 'block';
+    container.appendChild(this.renderer.domElement);
+
+    this.resizeObserver = new ResizeObserver(() => this.resize());
+    this.resizeObserver.observe(container);
+
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.controls.enableDamping = true;
+    this.updateOrbitTouches(getTouchSettings());
+
+    // Load sprite sheet texture (resolved against this module, so embedded games find it on any page)
+    this.spriteTexture = new THREE.TextureLoader().load(new URL('./assets/100-offline-sprite.png', import.meta.url).href);
+    // Configure texture for pixel-perfect sprites
+    this.spriteTexture.magFilter = THREE.NearestFilter;
+    this.spriteTexture.minFilter = THREE.NearestFilter;
+    this.spriteTexture.generateMipmaps = false;
+    this.spriteTexture.colorSpace = THREE.SRGBColorSpace; // sRGB to match original Chrome dino game colors
+
+    /*
+      ==== COLLISION DETECTION ====
+    */
+    this.collisionSystem = new CollisionDetectionSystem(this.renderer, this.scene, {
+      planeWidth: PLANE_WIDTH,
+      planeHeight: PLANE_HEIGHT,
+      trexXWorld: TREX_X_WORLD,
+      cameraZ: initialCameraZ,
+      cameraNear: CAMERA_NEAR,
+      cameraFar: CAMERA_FAR,
+      debugMode: this.debugMode
+    });
+    this.hitboxCollisionSystem = new HitboxCollisionSystem(this.scene, {
+      trexXWorld: TREX_X_WORLD,
+      trexYWorld: TREX_Y_WORLD,
+      debugMode: this.debugMode
+    });
+
+    /*
+      ==== FRAGMENT SHADER ====
+    */
+    const fragmentShader = createFragmentShader({
+      ...this.uniforms,
+      spriteTextureNode: texture(this.spriteTexture),
+      uniformObstacles: this.uniformObstacles,
+      uniformObstacleCount: this.uniformObstacleCount,
+      collisionCounter: this.collisionSystem.collisionCounter,
+      uniformCollisionPass: this.collisionSystem.uniformCollisionPass
+    });
+
+    const material = new THREE.NodeMaterial();
+    material.fragmentNode = fragmentShader();
+    material.side = THREE.DoubleSide;
+
+    this.mesh = new THREE.Mesh(new THREE.PlaneGeometry(PLANE_WIDTH, PLANE_HEIGHT), material);
+    this.scene.add(this.mesh);
+
+    // Set colorful gradient background directly on scene
+    this.scene.backgroundNode = tslBackground({
+      bottomLeft: this.uniforms.uniformBgBottomLeft,
+      bottomRight: this.uniforms.uniformBgBottomRight,
+      topLeft: this.uniforms.uniformBgTopLeft,
+      topRight: this.uniforms.uniformBgTopRight
+    })();
+
+    /*
+      ==== CONTROLS ====
+    */
+    // Without the page keyboard the game takes keys while focused, clicking it focuses it
+    if (!options.globalKeyboard && container.tabIndex < 0) {
+      container.tabIndex = 0;
+    }
+    this.trexControls = new TRexControls({
+      onInput: input => this.handlePlayerInput(input),
+      onPauseToggle: () => this.togglePause(),
+      onMuteToggle: toggleMute,
+      keyTarget: options.globalKeyboard ? document : container,
+      gestureElement: this.renderer.domElement,
+      mobileButtons: options.mobileButtons
+    });
+
+    this.renderer.domElement.addEventListener('click', this.onClick);
+    // Auto-pause when the tab is hidden or the window loses focus
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    window.addEventListener('blur', this.onWindowBlur);
+
+    this.renderer.setAnimationLoop(this.animate);
+
+    if (options.autoStart) this.start();
+  }
+
+  get state(): Readonly<SimulationState> {
+    return this.simulation.state;
+  }
+
+  get canvas(): HTMLCanvasElement {
+    return this.renderer.domElement;
+  }
+
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Start running like the first key press does, or resume a paused game
+   */
+  start(): void {
+    if (this.simulation.isPaused) {
+      this.resume();
+    } else if (this.state.trexState === TREX_STATE.WAITING) {
+      this.queueInput(GameInput.JUMP_PRESS);
+      this.queueInput(GameInput.JUMP_RELEASE);
+    }
+  }
+
+  pause(): void {
+    this.simulation.pause();
+  }
+
+  resume(): void {
+    this.simulation.resume();
+  }
+
+  togglePause(): void {
+    if (this.simulation.isPaused) {
+      this.simulation.resume();
+      if (this.debugMode) console.log('Resumed.');
+    } else if (this.simulation.isRunning) {
+      this.simulation.pause();
+      if (this.debugMode) console.log('Paused.');
+    }
+  }
+
+  /**
+   * Start a new run on the next tick, also in the middle of one
+   */
+  restart(): void {
+    this.resume();
+    this.queueInput(GameInput.RESTART);
+  }
+
+  /**
+   * Back to a fresh game waiting for the first input (used to start replays)
+   */
+  reset(): void {
+    this.simulation.reset();
+    this.pendingInputs.length = 0;
+    this.lastState = { ...this.state };
+    this.currentNight = 0;
+  }
+
+  /**
+   * Queue an input for the next tick, bypassing the player input filter (replays, autopilot)
+   */
+  queueInput(input: GameInput): void {
+    this.pendingInputs.push(input);
+  }
+
+  setSeed(seed: number): void {
+    this.simulation.setSeed(seed);
+    this.uniforms.uniformSeed.value = seed;
+  }
+
+  setHighScore(score: number): void {
+    this.settings.hiScore = score;
+    this.uniforms.uniformHiScore.value = score;
+  }
+
+  /**
+   * Change colors of the theme, colors left out stay as they are
+   */
+  setTheme(theme: Partial<DinoGameTheme>): void {
+    const uniforms = this.uniforms;
+    const themeUniforms = {
+      collisionColor: uniforms.uniformCollisionColor,
+      bgBottomLeft: uniforms.uniformBgBottomLeft,
+      bgBottomRight: uniforms.uniformBgBottomRight,
+      bgTopLeft: uniforms.uniformBgTopLeft,
+      bgTopRight: uniforms.uniformBgTopRight
+    };
+
+    for (const key of Object.keys(themeUniforms) as (keyof DinoGameTheme)[]) {
+      const color = theme[key];
+      if (color === undefined) continue;
+      this.settings[key] = color;
+      themeUniforms[key].value = new THREE.Color(color);
+    }
+  }
+
+  // 0 by day, 1 at night, in between while the sky fades
+  get nightProgress(): number {
+    return getNightProgress(this.state.score);
+  }
+
+  get muted(): boolean {
+    return this.unsubscribeSounds === null;
+  }
+
+  /**
+   * Mute this game's sound effects and music, the shared sound settings (mute button, M key) stay as they are
+   */
+  setMuted(muted: boolean): void {
+    this.music?.setMuted(muted);
+    if (muted === this.muted) return;
+    if (muted) {
+      this.unsubscribeSounds?.();
+      this.unsubscribeSounds = null;
+    } else {
+      this.unsubscribeSounds = subscribeSoundEffects(this.events);
+    }
+  }
+
+  // Touch gestures on the canvas control the T-Rex, so the camera only takes touches in button mode
+  updateOrbitTouches(touchSettings: TouchSettings): void {
+    this.controls.touches = touchSettings.mode === TouchControlMode.GESTURES
+      ? { ONE: null, TWO: null }
+      : { ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN };
+  }
+
+  /**
+   * Stop the game and free everything it holds, the canvas is removed from the container
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    this.renderer.setAnimationLoop(null);
+    this.trexControls.dispose();
+    this.controls.dispose();
+    this.resizeObserver.disconnect();
+    this.renderer.domElement.removeEventListener('click', this.onClick);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('blur', this.onWindowBlur);
+    this.events.clear();
+    this.unsubscribeSounds = null;
+    this.music?.dispose();
+
+    this.collisionSystem.dispose();
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+    this.spriteTexture.dispose();
+    this.renderer.dispose();
+    this.renderer.domElement.remove();
+  }
+
+  private containerSize() {
+    // Fall back to a 4:1 strip when the container has no size yet
+    const width = this.container.clientWidth || window.innerWidth;
+    const height = this.container.clientHeight || width / 4;
+    return { width, height };
+  }
+
+  private resize() {
+    const { width, height } = this.containerSize();
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.camera.position.z = calculateResponsiveCameraZ(this.camera);
+    this.renderer.setSize(width, height);
+  }
+
+  private handlePlayerInput(input: GameInput) {
+    if (this.options.acceptInput && !this.options.acceptInput(input)) return;
+    if (input === GameInput.RESTART && !this.simulation.isGameOver) return;
+    // Presses while paused are dropped, releases still apply so no key stays held after resuming
+    if (this.simulation.isPaused && (input === GameInput.JUMP_PRESS || input === GameInput.DUCK_PRESS)) return;
+    this.pendingInputs.push(input);
+  }
+
+  private handleSimulationEvent(event: SimulationEvent) {
+    this.options.onSimulationEvent?.(event);
+
+    const tick = this.state.tick;
+    switch (event.type) {
+      case 'stateChange':
+        this.emitStateChangeEvents(event.from, event.to);
+        break;
+      case 'milestone':
+        this.events.emit('milestone', { tick, score: event.score });
+        break;
+      case 'restart':
+        // Restarting brings the day back
+        if (this.currentNight > 0) this.events.emit('nightEnd', { tick, night: this.currentNight });
+        this.currentNight = 0;
+        this.events.emit('restart', { tick });
+        break;
+      case 'crash':
+        this.handleCrash();
+        break;
+    }
+  }
+
+  private emitStateChangeEvents(from: number, to: number) {
+    // Pausing and resuming don't start or end anything
+    if (from === TREX_STATE.PAUSED || to === TREX_STATE.PAUSED) return;
+
+    const tick = this.state.tick;
+    if (from === TREX_STATE.WAITING && to === TREX_STATE.RUNNING) {
+      this.events.emit('gameStart', { tick });
+    } else if (to === TREX_STATE.JUMPING) {
+      this.events.emit('jump', { tick, gameSpeed: this.state.gameSpeed });
+    } else if (from === TREX_STATE.JUMPING && (to === TREX_STATE.RUNNING || to === TREX_STATE.DUCKING)) {
+      this.events.emit('land', { tick, speedDrop: to === TREX_STATE.DUCKING });
+    } else if (from === TREX_STATE.RUNNING && to === TREX_STATE.DUCKING) {
+      this.events.emit('duck', { tick });
+    }
+  }
+
+  private handleCrash() {
+    const { tick, score } = this.state;
+    const previousScore = this.settings.hiScore;
+    // Replayed runs don't count
+    const newHighScore = !this.options.isReplaying?.() && score > previousScore;
+    if (newHighScore) this.setHighScore(score);
+
+    this.events.emit('crash', { tick, score, obstacleType: this.findNearestObstacle()?.type ?? null });
+    if (newHighScore) this.events.emit('newHighScore', { tick, score, previousScore });
+  }
+
+  private step() {
+    this.options.beforeStep?.();
+
+    const previousScore = this.state.score;
+    this.simulation.step(this.pendingInputs.splice(0));
+
+    if (this.state.score !== previousScore && this.simulation.isRunning) {
+      this.events.emit('score', { tick: this.state.tick, score: this.state.score });
+    }
+    const night = getCurrentNight(this.state.score);
+    if (night !== this.currentNight && this.simulation.isRunning) {
+      if (this.currentNight > 0) this.events.emit('nightEnd', { tick: this.state.tick, night: this.currentNight });
+      if (night > 0) this.events.emit('nightStart', { tick: this.state.tick, night });
+    }
+    this.currentNight = night;
+    if (this.simulation.isRunning) this.events.emit('tick', { tick: this.state.tick });
+
+    this.options.afterStep?.();
+  }
+
+  // Obstacle closest to the T-Rex, the one it crashed into (the readback backend doesn't know which)
+  private findNearestObstacle(): ObstacleInfo | null {
+    let nearest: ObstacleInfo | null = null;
+    let nearestDistance = Infinity;
+    for (const obstacle of this.simulation.obstacles) {
+      const distance = Math.abs(obstacle.x - this.state.distanceRan - TREX_X_WORLD);
+      if (distance < nearestDistance) {
+        nearest = obstacle;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  // Hitbox backend runs inside the simulation tick, in debug mode also as comparison for the readback backend
+  private detectHitboxCollision(state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]): boolean {
+    // Replays crash on their recorded tick
+    if (this.options.isReplaying?.()) return false;
+    if (this.collisionBackend !== 'hitbox' && !this.debugMode) return false;
+
+    const obstacle = this.hitboxCollisionSystem.detectCollision({
+      distanceRan: state.distanceRan,
+      obstacles,
+      jumpOffsetY: state.jumpOffsetY,
+      ducking: state.trexState === TREX_STATE.DUCKING
+    });
+
+    if (obstacle && this.collisionBackend !== 'hitbox') {
+      console.log(`[hitbox] collision with obstacle type ${obstacle.type} (obstacle ${obstacle.index})`);
+      return false;
+    }
+
+    return obstacle !== null;
+  }
+
+  private updateObstacleUniforms(alpha: number) {
+    // Pterodactyls move on their own, step them back to the interpolated render time
+    const flightTime = this.simulation.isRunning ? (1 - alpha) * SIMULATION_TICK_SECONDS : 0;
+    const obstacles = this.simulation.obstacles.slice(0, MAX_VISIBLE_OBSTACLES);
+    // Only a game speed set below the start speed (debug GUI) makes the course denser than the array
+    if (this.debugMode && this.simulation.obstacles.length > MAX_VISIBLE_OBSTACLES) {
+      console.warn(`Drawing ${MAX_VISIBLE_OBSTACLES} of ${this.simulation.obstacles.length} obstacles`);
+    }
+    obstacles.forEach((obstacle, index) => {
+      const x = obstacle.x + obstacle.speedOffset * flightTime;
+      this.obstacleUniformValues[index].set(x, obstacle.heightOffset, obstacle.type, obstacle.size - 1);
+    });
+    this.uniformObstacleCount.value = obstacles.length;
+  }
+
+  private animate = () => {
+    const delta = Math.min(this.clock.getDelta(), MAX_FRAME_DELTA);
+    const simulation = this.simulation;
+    const uniforms = this.uniforms;
+
+    this.trexControls.pollGamepads();
+
+    // Update orbit controls (disabled during camera animation)
+    if (this.controls.enabled) {
+      this.controls.update();
+    }
+
+    // Advance the simulation in fixed ticks (frozen while paused, so resuming doesn't catch up)
+    if (!simulation.isPaused) {
+      this.tickAccumulator += delta;
+      uniforms.uniformAnimTime.value += delta;
+      while (this.tickAccumulator >= SIMULATION_TICK_SECONDS) {
+        this.lastState = { ...this.state };
+        this.step();
+        this.tickAccumulator -= SIMULATION_TICK_SECONDS;
+      }
+    }
+
+    // Render in between the last two ticks
+    const alpha = this.tickAccumulator / SIMULATION_TICK_SECONDS;
+    const renderState = interpolateState(this.lastState, this.state, alpha);
+    uniforms.uniformDistanceRan.value = renderState.distanceRan;
+    uniforms.uniformJumpOffsetY.value = renderState.jumpOffsetY;
+    uniforms.uniformTRexState.value = simulation.displayTRexState;
+    uniforms.uniformPaused.value = simulation.isPaused ? 1 : 0;
+    uniforms.uniformScore.value = this.state.score;
+    this.updateObstacleUniforms(alpha);
+
+    // Detect readback collisions every frame once the previous check has come back from the GPU
+    if (simulation.isRunning && (this.collisionBackend === 'readback' || this.debugMode) && !this.collisionSystem.isPending) {
+      this.collisionSystem.detectCollision({ collisionColor: this.settings.collisionColor }).then(collision => {
+        // Results that arrive after pausing or crashing belong to a frame that no longer counts
+        if (!collision || !simulation.isRunning) return;
+
+        if (this.collisionBackend === 'readback' && !this.options.isReplaying?.()) {
+          simulation.crash();
+        } else if (this.debugMode) {
+          console.log('[readback] collision');
+        }
+      }).catch(console.error);
+    }
+
+    this.music?.update(this.state.gameSpeed, this.nightProgress, this.state.trexState);
+
+    this.options.onFrame?.();
+
+    this.renderer.render(this.scene, this.camera);
+  };
+
+  // Clicking the restart button after game over restarts
+  private onClick = (event: MouseEvent) => {
+    if (!this.simulation.isGameOver) return;
+
+    // Convert pointer coordinates to normalized device coordinates of the canvas
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    if (this.raycaster.intersectObject(this.mesh).length > 0) {
+      this.pendingInputs.push(GameInput.RESTART);
+    }
+  };
+
+  private onVisibilityChange = () => {
+    if (document.hidden) {
+      this.simulation.pause();
+    } else {
+      // Discard the time spent in the background
+      this.clock.getDelta();
+    }
+  };
+
+  private onWindowBlur = () => {
+    this.simulation.pause();
+  };
+}
+
+export function createDinoGame(container: HTMLElement, options: DinoGameOptions = {}): DinoGame {
+  return new DinoGame(container, options);
+}
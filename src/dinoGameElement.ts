@@ -0,0 +1,86 @@
+/**
+ * <tsl-dino-game> custom element
+ * Runs a game sized to the element. Attributes are read when the element is connected:
+ * seed (number or text), collision ('readback' or 'hitbox'), autostart, muted and global-keyboard.
+ * Every game event is dispatched on the element as a CustomEvent of the same name with the payload as detail.
+ */
+
+import { createDinoGame } from './dinoGame.ts';
+import type { DinoGame } from './dinoGame.ts';
+import { GAME_EVENT_TYPES } from './gameEvents.ts';
+import { parseSeed } from './gameSeed.ts';
+
+export const DINO_GAME_TAG = 'tsl-dino-game';
+
+export class DinoGameElement extends HTMLElement {
+  private dinoGame: DinoGame | null = null;
+
+  // The running game, null while the element is not in the document
+  get game(): DinoGame | null {
+    return this.dinoGame;
+  }
+
+  connectedCallback(): void {
+    if (this.dinoGame) return;
+
+    // Custom elements are inline, the game sizes to a block (without a height it falls back to a 4:1 strip)
+    if (!this.style.display) this.style.display = 'block';
+
+    const seed = this.getAttribute('seed');
+    const game = createDinoGame(this, {
+      seed: seed ? parseSeed(seed) : undefined, // Default course
+      collisionBackend: this.getAttribute('collision') === 'hitbox' ? 'hitbox' : 'readback',
+      sound: !this.hasAttribute('muted'),
+      globalKeyboard: this.hasAttribute('global-keyboard'),
+      autoStart: this.hasAttribute('autostart')
+    });
+
+    for (const type of GAME_EVENT_TYPES) {
+      game.on(type, detail => this.dispatchEvent(new CustomEvent(type, { detail })));
+    }
+    this.dinoGame = game;
+  }
+
+  disconnectedCallback(): void {
+    this.destroy();
+  }
+
+  start(): void {
+    this.dinoGame?.start();
+  }
+
+  pause(): void {
+    this.dinoGame?.pause();
+  }
+
+  resume(): void {
+    this.dinoGame?.resume();
+  }
+
+  restart(): void {
+    this.dinoGame?.restart();
+  }
+
+  /**
+   * Free the game, appending the element again creates a new one
+   */
+  destroy(): void {
+    this.dinoGame?.destroy();
+    this.dinoGame = null;
+  }
+}
+
+/**
+ * Register <tsl-dino-game>, safe to call more than once
+ */
+export function defineDinoGameElement(): void {
+  if (!customElements.get(DINO_GAME_TAG)) {
+    customElements.define(DINO_GAME_TAG, DinoGameElement);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    [DINO_GAME_TAG]: DinoGameElement;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Entry point for embedding the game in other pages
+ * Importing it registers <tsl-dino-game>, createDinoGame() runs a game in any container.
+ */
+
+import { defineDinoGameElement } from './dinoGameElement.ts';
+
+export { createDefaultSettings, createDinoGame, DinoGame } from './dinoGame.ts';
+export type { CollisionBackend, DinoGameOptions, DinoGameSettings, DinoGameTheme } from './dinoGame.ts';
+export { DinoGameElement, defineDinoGameElement } from './dinoGameElement.ts';
+export type { GameEvents, GameEventType } from './gameEvents.ts';
+export { initIframeApi } from './iframeApi.ts';
+
+defineDinoGameElement();
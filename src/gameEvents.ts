@@ -0,0 +1,72 @@
+/**
+ * Game event bus
+ * Typed events of the running game (start, jumps, score, milestones, nights, crashes, high scores) that features like
+ * sounds, high score persistence, achievements, analytics or haptics subscribe to instead of editing the game loop
+ */
+
+import type { ObstacleType } from './obstacleLayout.ts';
+
+// Payloads of every game event, all of them carry the simulation tick they happened on
+export interface GameEvents {
+  gameStart: { tick: number };
+  jump: { tick: number; gameSpeed: number };
+  land: { tick: number; speedDrop: boolean };   // speedDrop: landed from a speed drop, still ducking
+  duck: { tick: number };
+  score: { tick: number; score: number };        // Every tick the score changes
+  milestone: { tick: number; score: number };
+  nightStart: { tick: number; night: number };  // night: 1 for the first night of the run
+  nightEnd: { tick: number; night: number };
+  crash: { tick: number; score: number; obstacleType: ObstacleType | null };  // obstacleType: null without obstacles
+  restart: { tick: number };
+  newHighScore: { tick: number; score: number; previousScore: number };
+  tick: { tick: number };                        // Every simulation tick of a running game, after the other events
+}
+
+export type GameEventType = keyof GameEvents;
+
+export const GAME_EVENT_TYPES: readonly GameEventType[] = [
+  'gameStart', 'jump', 'land', 'duck', 'score', 'milestone', 'nightStart', 'nightEnd', 'crash', 'restart', 'newHighScore',
+  'tick'
+];
+export type GameEventListener<K extends GameEventType> = (event: GameEvents[K]) => void;
+
+export class GameEventBus {
+  private listeners = new Map<GameEventType, Set<GameEventListener<never>>>();
+
+  /**
+   * Subscribe to an event, returns a function that unsubscribes again
+   */
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends GameEventType>(type: K, listener: GameEventListener<K>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Call every listener of the event, a failing listener doesn't stop the others (or the game loop)
+   */
+  emit<K extends GameEventType>(type: K, event: GameEvents[K]): void {
+    const listeners = this.listeners.get(type) as Set<GameEventListener<K>> | undefined;
+    if (!listeners) return;
+
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn(`Game event listener for ${type} failed:`, error);
+      }
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
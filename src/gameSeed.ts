@@ -0,0 +1,69 @@
+/**
+ * Course seeds and game modes
+ * Normal runs always play the default course, ?seed= picks another course and ?daily derives it from the local date
+ */
+
+import { DEFAULT_COURSE_SEED, hashUint32 } from './obstacleLayout.ts';
+
+export const GameMode = {
+  NORMAL: 'normal',
+  SEEDED: 'seeded',
+  DAILY: 'daily'
+} as const;
+export type GameMode = typeof GameMode[keyof typeof GameMode];
+
+export interface GameModeSettings {
+  mode: GameMode;
+  seed: number;
+  dateKey: string | null; // Local date (YYYY-MM-DD) of the daily challenge
+}
+
+/**
+ * Seeds are unsigned 32-bit integers, anything else is hashed (FNV-1a + lowbias32)
+ */
+export function parseSeed(value: string): number {
+  if (/^\d+$/.test(value) && Number(value) <= 0xffffffff) {
+    return Number(value) >>> 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hashUint32(hash);
+}
+
+export function getLocalDateKey(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function getDailySeed(dateKey: string): number {
+  return parseSeed(`daily-${dateKey}`);
+}
+
+export function resolveGameMode(urlParams: URLSearchParams): GameModeSettings {
+  if (urlParams.has('daily')) {
+    const dateKey = getLocalDateKey();
+    return { mode: GameMode.DAILY, seed: getDailySeed(dateKey), dateKey };
+  }
+
+  const seedParam = urlParams.get('seed');
+  if (seedParam) {
+    return { mode: GameMode.SEEDED, seed: parseSeed(seedParam), dateKey: null };
+  }
+
+  return { mode: GameMode.NORMAL, seed: DEFAULT_COURSE_SEED, dateKey: null };
+}
+
+/**
+ * Seed for the next run: only the daily challenge changes, following the date
+ */
+export function nextRunSettings(settings: GameModeSettings): GameModeSettings {
+  if (settings.mode !== GameMode.DAILY) return settings;
+
+  const dateKey = getLocalDateKey();
+  return { ...settings, seed: getDailySeed(dateKey), dateKey };
+}
@@ -0,0 +1,138 @@
+/**
+ * Input forgiveness of the simulation: jump buffer, speed drop grace period and coyote time
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createDefaultConfig, GameInput, GameSimulation } from './gameSimulation.ts';
+import type { SimulationConfig } from './gameSimulation.ts';
+
+// A running simulation without collisions
+function createRunningSimulation(config: Partial<SimulationConfig> = {}): GameSimulation {
+  const simulation = new GameSimulation({ config: { ...createDefaultConfig(), ...config } });
+  simulation.step([GameInput.JUMP_PRESS]);
+  return simulation;
+}
+
+function stepUntilLanded(simulation: GameSimulation): number {
+  let ticks = 0;
+  while (simulation.state.jumping) {
+    simulation.step();
+    ticks++;
+    assert.ok(ticks < 600, 'jump never landed');
+  }
+  return ticks;
+}
+
+// Highest point of the jump the simulation is in
+function stepUntilPeak(simulation: GameSimulation): number {
+  let peak = simulation.state.jumpOffsetY;
+  while (simulation.state.jumping) {
+    simulation.step();
+    peak = Math.max(peak, simulation.state.jumpOffsetY);
+  }
+  return peak;
+}
+
+// Ticks of a full jump, the same for every run with the default physics
+function measureJumpTicks(): number {
+  const simulation = createRunningSimulation();
+  simulation.step([GameInput.JUMP_PRESS]);
+  return stepUntilLanded(simulation);
+}
+
+describe('jump buffer', () => {
+  test('a press just before landing jumps again on landing', () => {
+    const jumpTicks = measureJumpTicks();
+    const simulation = createRunningSimulation();
+    simulation.step([GameInput.JUMP_PRESS]);
+    for (let tick = 1; tick < jumpTicks - 2; tick++) simulation.step();
+
+    simulation.step([GameInput.JUMP_PRESS]);
+    simulation.step();
+    simulation.step();
+    simulation.step();
+
+    assert.equal(simulation.state.jumping, true);
+    assert.ok(simulation.state.jumpVelocity > 0, 'second jump should be on its way up');
+  });
+
+  test('a tap released before landing only gives a short jump', () => {
+    const jumpTicks = measureJumpTicks();
+    const peaks = [true, false].map(held => {
+      const simulation = createRunningSimulation();
+      simulation.step([GameInput.JUMP_PRESS]);
+      for (let tick = 1; tick < jumpTicks - 2; tick++) simulation.step();
+
+      simulation.step([GameInput.JUMP_PRESS]);
+      simulation.step(held ? [] : [GameInput.JUMP_RELEASE]);
+      while (!simulation.state.jumping) simulation.step();
+      return stepUntilPeak(simulation);
+    });
+
+    const [heldPeak, tappedPeak] = peaks;
+    assert.ok(tappedPeak < heldPeak, `tapped ${tappedPeak} should stay below held ${heldPeak}`);
+  });
+
+  test('a buffer time of 0 drops early presses', () => {
+    const jumpTicks = measureJumpTicks();
+    const simulation = createRunningSimulation({ jumpBufferTime: 0 });
+    simulation.step([GameInput.JUMP_PRESS]);
+    for (let tick = 1; tick < jumpTicks - 2; tick++) simulation.step();
+
+    simulation.step([GameInput.JUMP_PRESS]);
+    stepUntilLanded(simulation);
+    simulation.step();
+
+    assert.equal(simulation.state.jumping, false);
+  });
+});
+
+describe('speed drop grace period', () => {
+  test('a released speed drop keeps going for the grace period', () => {
+    const simulation = createRunningSimulation();
+    simulation.step([GameInput.JUMP_PRESS]);
+    // High enough that the drop doesn't land within the grace period
+    for (let tick = 0; tick < 20; tick++) simulation.step();
+    simulation.step([GameInput.DUCK_PRESS]);
+    simulation.step([GameInput.DUCK_RELEASE]);
+
+    assert.equal(simulation.state.speedDrop, true);
+  });
+
+  test('a grace period of 0 stops the speed drop on release', () => {
+    const simulation = createRunningSimulation({ speedDropGraceTime: 0 });
+    simulation.step([GameInput.JUMP_PRESS]);
+    // High enough that the drop doesn't land within the grace period
+    for (let tick = 0; tick < 20; tick++) simulation.step();
+    simulation.step([GameInput.DUCK_PRESS]);
+    simulation.step([GameInput.DUCK_RELEASE]);
+
+    assert.equal(simulation.state.speedDrop, false);
+  });
+});
+
+describe('coyote time', () => {
+  test('a jump pressed right after ducking still jumps', () => {
+    const simulation = createRunningSimulation();
+    simulation.step([GameInput.DUCK_PRESS]);
+    simulation.step();
+    simulation.step([GameInput.JUMP_PRESS]);
+
+    assert.equal(simulation.state.ducking, false);
+    assert.equal(simulation.state.jumping, true);
+  });
+
+  test('a jump pressed after the coyote time waits for the duck to end', () => {
+    const simulation = createRunningSimulation({ coyoteTime: 0 });
+    simulation.step([GameInput.DUCK_PRESS]);
+    simulation.step();
+    simulation.step([GameInput.JUMP_PRESS]);
+
+    assert.equal(simulation.state.ducking, true);
+    assert.equal(simulation.state.jumping, false);
+
+    simulation.step([GameInput.DUCK_RELEASE]);
+    assert.equal(simulation.state.jumping, true);
+  });
+});
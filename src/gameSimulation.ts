@@ -0,0 +1,501 @@
+/**
+ * Deterministic game simulation
+ * Advances speed, distance, score and jump physics in fixed ticks from explicit inputs,
+ * independent of the display refresh rate. Rendering interpolates between ticks.
+ * The obstacle course is part of the simulation so every run with the same seed and inputs plays out the same.
+ */
+
+import { ObstacleCourse } from './obstacleLayout.ts';
+import type { ObstacleInfo } from './obstacleLayout.ts';
+
+// T-Rex states (matching Chrome dino game, also indicates overall game state)
+export const TREX_STATE = {
+  WAITING: 0,
+  RUNNING: 1,
+  JUMPING: 2,
+  DUCKING: 3,
+  CRASHED: 4,
+  PAUSED: 5
+} as const;
+
+// Fixed simulation rate
+export const SIMULATION_TICK_RATE = 60;
+export const SIMULATION_TICK_SECONDS = 1 / SIMULATION_TICK_RATE;
+
+// Game speed settings
+export const GAME_SPEED_START = 3.8;
+export const GAME_SPEED_MAX = 7.8;
+export const GAME_SPEED_ACCELERATION_DEFAULT = 0.01;
+export const SCORE_COEFFICIENT_DEFAULT = 1.8;
+
+// Input forgiveness defaults (seconds), 0 disables
+export const JUMP_BUFFER_TIME_DEFAULT = 0.1;       // A jump pressed this long before landing (or while ducking) still triggers
+export const SPEED_DROP_GRACE_TIME_DEFAULT = 0.05; // Speed drop keeps going this long after releasing duck
+export const COYOTE_TIME_DEFAULT = 0.08;           // A jump pressed this long after a duck started still jumps
+
+// Score interval for milestone events (matches ACHIEVEMENT_DISTANCE in tslScore)
+export const MILESTONE_SCORE = 100;
+
+export const JUMP_PHYSICS = {
+  INITIAL_JUMP_VELOCITY: 4.0,   // positive = upward (units/second)
+  GRAVITY: -9.0,                // negative = downward acceleration (units/second²)
+  DROP_VELOCITY: -1.5,          // negative = fast downward velocity (units/second)
+  SPEED_DROP_VELOCITY: -2.0,    // forced downward velocity when ducking mid-air (units/second)
+  GROUND_Y: 0,                  // ground level
+  MIN_JUMP_HEIGHT: 0.4,         // minimum height before can fast-fall
+  MAX_JUMP_HEIGHT: 3.5          // maximum jump height
+} as const;
+
+export const GameInput = {
+  JUMP_PRESS: 'jumpPress',
+  JUMP_RELEASE: 'jumpRelease',
+  DUCK_PRESS: 'duckPress',
+  DUCK_RELEASE: 'duckRelease',
+  RESTART: 'restart'
+} as const;
+export type GameInput = typeof GameInput[keyof typeof GameInput];
+
+export interface SimulationState {
+  tick: number;          // Ticks since the simulation was created or last restarted
+  trexState: number;
+  gameSpeed: number;
+  distanceRan: number;   // Total distance in world units
+  score: number;
+  jumpOffsetY: number;
+  jumpVelocity: number;
+  jumping: boolean;
+  ducking: boolean;
+  speedDrop: boolean;
+  reachedMinHeight: boolean;
+  jumpBufferTime: number;      // Seconds left to trigger a buffered jump press, 0 = none
+  jumpBufferHeld: boolean;     // The buffered jump press hasn't been released yet
+  jumpReleasePending: boolean; // Buffered jump was released before it started, shortened once past the minimum height
+  speedDropGraceTime: number;  // Seconds left before a released speed drop stops, 0 = none
+  coyoteTime: number;          // Seconds left in which a jump press still cancels a fresh duck, 0 = none
+}
+
+// Part of every replay, a run only plays back the same with the same config
+export interface SimulationConfig {
+  gameSpeedAcceleration: number;
+  scoreCoefficient: number;
+  jumpBufferTime: number;
+  speedDropGraceTime: number;
+  coyoteTime: number;
+}
+
+export function createDefaultConfig(): SimulationConfig {
+  return {
+    gameSpeedAcceleration: GAME_SPEED_ACCELERATION_DEFAULT,
+    scoreCoefficient: SCORE_COEFFICIENT_DEFAULT,
+    jumpBufferTime: JUMP_BUFFER_TIME_DEFAULT,
+    speedDropGraceTime: SPEED_DROP_GRACE_TIME_DEFAULT,
+    coyoteTime: COYOTE_TIME_DEFAULT
+  };
+}
+
+export type SimulationEvent =
+  | { type: 'input'; input: GameInput; tick: number }
+  | { type: 'stateChange'; from: number; to: number }
+  | { type: 'milestone'; score: number }
+  | { type: 'crash' }
+  | { type: 'restart' };
+
+type CollisionCallback = (state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]) => boolean;
+
+interface GameSimulationOptions {
+  config?: SimulationConfig;
+  seed?: number; // Obstacle course seed
+  // Checked after every running tick, a hit crashes the T-Rex
+  detectCollision?: CollisionCallback;
+  onEvent?: (event: SimulationEvent) => void;
+}
+
+export function createInitialState(): SimulationState {
+  return {
+    tick: 0,
+    trexState: TREX_STATE.WAITING,
+    gameSpeed: GAME_SPEED_START,
+    distanceRan: 0,
+    score: 0,
+    jumpOffsetY: JUMP_PHYSICS.GROUND_Y,
+    jumpVelocity: 0,
+    jumping: false,
+    ducking: false,
+    speedDrop: false,
+    reachedMinHeight: false,
+    jumpBufferTime: 0,
+    jumpBufferHeld: false,
+    jumpReleasePending: false,
+    speedDropGraceTime: 0,
+    coyoteTime: 0
+  };
+}
+
+/**
+ * Interpolated values for rendering between the previous and the current tick
+ */
+export function interpolateState(previous: SimulationState, current: SimulationState, alpha: number) {
+  // No interpolation across restarts or ticks changed from outside (debug GUI)
+  if (current.tick !== previous.tick + 1) {
+    return { distanceRan: current.distanceRan, jumpOffsetY: current.jumpOffsetY };
+  }
+
+  return {
+    distanceRan: previous.distanceRan + (current.distanceRan - previous.distanceRan) * alpha,
+    jumpOffsetY: previous.jumpOffsetY + (current.jumpOffsetY - previous.jumpOffsetY) * alpha
+  };
+}
+
+// Airborne part of the state, shared with predictions (e.g. the autopilot)
+export type JumpState = Pick<
+  SimulationState,
+  'jumpOffsetY' | 'jumpVelocity' | 'reachedMinHeight' | 'speedDrop' | 'speedDropGraceTime'
+>;
+
+/**
+ * Allow fast-fall if minimum height reached
+ */
+export function releaseJump(jump: JumpState): void {
+  if (jump.reachedMinHeight && jump.jumpVelocity > JUMP_PHYSICS.DROP_VELOCITY) {
+    jump.jumpVelocity = JUMP_PHYSICS.DROP_VELOCITY;
+  }
+}
+
+/**
+ * One tick of jump physics, returns true when the T-Rex is back on the ground
+ */
+export function advanceJump(jump: JumpState): boolean {
+  // Update position based on velocity
+  jump.jumpOffsetY += jump.jumpVelocity * SIMULATION_TICK_SECONDS;
+
+  // Apply gravity
+  jump.jumpVelocity += JUMP_PHYSICS.GRAVITY * SIMULATION_TICK_SECONDS;
+
+  // Released speed drop runs out after the grace period
+  if (jump.speedDropGraceTime > 0) {
+    jump.speedDropGraceTime -= SIMULATION_TICK_SECONDS;
+    if (jump.speedDropGraceTime <= 0) {
+      jump.speedDropGraceTime = 0;
+      jump.speedDrop = false;
+    }
+  }
+
+  // Check if minimum height reached
+  if (jump.jumpOffsetY > JUMP_PHYSICS.MIN_JUMP_HEIGHT || jump.speedDrop) {
+    jump.reachedMinHeight = true;
+  }
+
+  // Check if maximum height reached
+  if (jump.jumpOffsetY > JUMP_PHYSICS.MAX_JUMP_HEIGHT || jump.speedDrop) {
+    releaseJump(jump);
+  }
+
+  if (jump.jumpOffsetY <= JUMP_PHYSICS.GROUND_Y) {
+    jump.jumpOffsetY = JUMP_PHYSICS.GROUND_Y;
+    return true;
+  }
+  return false;
+}
+
+export class GameSimulation {
+  readonly state: SimulationState = createInitialState();
+  readonly course: ObstacleCourse;
+  config: SimulationConfig;
+  private detectCollision: CollisionCallback | null;
+  private onEvent: ((event: SimulationEvent) => void) | null;
+  private pausedTRexState: number | null = null; // State to resume into
+
+  constructor(options: GameSimulationOptions = {}) {
+    this.config = options.config ?? createDefaultConfig();
+    this.course = new ObstacleCourse(options.seed);
+    this.detectCollision = options.detectCollision ?? null;
+    this.onEvent = options.onEvent ?? null;
+  }
+
+  get isGameOver(): boolean {
+    return this.state.trexState === TREX_STATE.CRASHED;
+  }
+
+  get isRunning(): boolean {
+    return this.state.trexState !== TREX_STATE.WAITING
+      && this.state.trexState !== TREX_STATE.CRASHED
+      && this.state.trexState !== TREX_STATE.PAUSED;
+  }
+
+  get isPaused(): boolean {
+    return this.state.trexState === TREX_STATE.PAUSED;
+  }
+
+  /**
+   * T-Rex state to draw, the state before pausing while paused
+   */
+  get displayTRexState(): number {
+    return this.pausedTRexState ?? this.state.trexState;
+  }
+
+  get obstacles(): readonly ObstacleInfo[] {
+    return this.course.obstacles;
+  }
+
+  /**
+   * Switch to another obstacle course, starting it from the beginning
+   */
+  setSeed(seed: number): void {
+    this.course.reset(seed);
+  }
+
+  /**
+   * Advance the simulation by one fixed tick, applying the inputs first
+   */
+  step(inputs: readonly GameInput[] = []): void {
+    // A paused simulation doesn't advance, ticks stay aligned with replays
+    if (this.isPaused) return;
+
+    for (const input of inputs) {
+      // Emitted before applying, so a restart input still belongs to the run it ends
+      this.emit({ type: 'input', input, tick: this.state.tick });
+      this.applyInput(input);
+    }
+
+    const state = this.state;
+    state.tick++;
+
+    // Only update game state if game is running (not waiting or crashed)
+    if (this.isRunning) {
+      // Gradually increase game speed up to the maximum
+      if (state.gameSpeed < GAME_SPEED_MAX) {
+        state.gameSpeed += this.config.gameSpeedAcceleration * SIMULATION_TICK_SECONDS;
+      }
+
+      state.distanceRan += state.gameSpeed * SIMULATION_TICK_SECONDS;
+
+      // Convert distance to score using coefficient
+      const previousScore = state.score;
+      state.score = Math.floor(state.distanceRan * this.config.scoreCoefficient);
+
+      if (Math.floor(state.score / MILESTONE_SCORE) > Math.floor(previousScore / MILESTONE_SCORE)) {
+        this.emit({ type: 'milestone', score: Math.floor(state.score / MILESTONE_SCORE) * MILESTONE_SCORE });
+      }
+
+      this.course.update(state.distanceRan, state.gameSpeed, state.score, SIMULATION_TICK_SECONDS);
+    }
+
+    // Jump physics also run while waiting
+    if (!this.isGameOver) {
+      this.updateJump();
+      this.updateJumpBuffer();
+      state.coyoteTime = Math.max(0, state.coyoteTime - SIMULATION_TICK_SECONDS);
+    }
+
+    if (this.isRunning && this.detectCollision?.(state, this.course.obstacles)) {
+      this.crash();
+    }
+  }
+
+  /**
+   * End the run, used directly by collision backends that report asynchronously
+   */
+  crash(): void {
+    if (this.isGameOver) return;
+
+    // The world stops by state, gameSpeed keeps the speed of the crash for run stats
+    this.setTRexState(TREX_STATE.CRASHED);
+    this.emit({ type: 'crash' });
+  }
+
+  /**
+   * Freeze a running game, only running games can be paused
+   */
+  pause(): void {
+    if (!this.isRunning) return;
+
+    this.pausedTRexState = this.state.trexState;
+    this.setTRexState(TREX_STATE.PAUSED);
+  }
+
+  resume(): void {
+    if (this.pausedTRexState === null) return;
+
+    const trexState = this.pausedTRexState;
+    this.pausedTRexState = null;
+    this.setTRexState(trexState);
+  }
+
+  /**
+   * Back to a fresh simulation waiting for the first input (used to start replays)
+   */
+  reset(): void {
+    Object.assign(this.state, createInitialState());
+    this.pausedTRexState = null;
+    this.course.reset();
+  }
+
+  restart(): void {
+    Object.assign(this.state, createInitialState());
+    this.pausedTRexState = null;
+    this.course.reset();
+    // Start running immediately after restart
+    this.state.trexState = TREX_STATE.RUNNING;
+    this.emit({ type: 'restart' });
+  }
+
+  private applyInput(input: GameInput): void {
+    const state = this.state;
+
+    switch (input) {
+      case GameInput.JUMP_PRESS:
+        // If crashed, restart the game
+        if (state.trexState === TREX_STATE.CRASHED) {
+          this.restart();
+        } else if (state.trexState === TREX_STATE.WAITING) {
+          // Don't jump on first press when starting the game
+          this.setTRexState(TREX_STATE.RUNNING);
+        } else {
+          this.startJump();
+        }
+        break;
+
+      case GameInput.JUMP_RELEASE:
+        // Releasing a buffered press makes its jump a short one
+        state.jumpBufferHeld = false;
+        if (state.jumping) {
+          this.endJump();
+        }
+        break;
+
+      case GameInput.DUCK_PRESS:
+        if (state.trexState === TREX_STATE.CRASHED) break; // no duck when crashed
+
+        if (state.jumping) {
+          // Speed drop during jump
+          this.setSpeedDrop();
+        } else if (!state.ducking) {
+          // Duck when on ground
+          this.setDuck(true);
+        }
+        break;
+
+      case GameInput.DUCK_RELEASE:
+        if (state.trexState === TREX_STATE.CRASHED) break;
+
+        // Stop ducking, a speed drop runs out after the grace period
+        if (state.speedDrop && this.config.speedDropGraceTime > 0) {
+          state.speedDropGraceTime = this.config.speedDropGraceTime;
+        } else {
+          state.speedDrop = false;
+        }
+        this.setDuck(false);
+        break;
+
+      case GameInput.RESTART:
+        this.restart();
+        break;
+    }
+  }
+
+  private startJump(): void {
+    const state = this.state;
+
+    // A duck that has only just started still gives way to a jump (coyote time)
+    if (state.ducking && !state.jumping && state.coyoteTime > 0) {
+      this.setDuck(false);
+    }
+
+    if (state.jumping || state.ducking) {
+      // Remember the press, it triggers on landing or when ducking ends
+      state.jumpBufferTime = this.config.jumpBufferTime;
+      state.jumpBufferHeld = true;
+      return;
+    }
+
+    state.jumping = true;
+    state.jumpBufferTime = 0;
+    state.jumpReleasePending = false;
+    state.coyoteTime = 0;
+    state.jumpVelocity = JUMP_PHYSICS.INITIAL_JUMP_VELOCITY;
+    state.reachedMinHeight = false;
+    state.speedDrop = false;
+    this.setTRexState(TREX_STATE.JUMPING);
+  }
+
+  private endJump(): void {
+    releaseJump(this.state);
+  }
+
+  private setSpeedDrop(): void {
+    this.state.speedDrop = true;
+    this.state.speedDropGraceTime = 0;
+    this.state.jumpVelocity = JUMP_PHYSICS.SPEED_DROP_VELOCITY;
+  }
+
+  private setDuck(isDucking: boolean): void {
+    const state = this.state;
+
+    if (isDucking && !state.ducking) {
+      state.ducking = true;
+      state.coyoteTime = this.config.coyoteTime;
+      this.setTRexState(TREX_STATE.DUCKING);
+    } else if (!isDucking && state.ducking) {
+      state.ducking = false;
+      this.setTRexState(TREX_STATE.RUNNING);
+    }
+  }
+
+  private updateJump(): void {
+    const state = this.state;
+    if (!state.jumping) return;
+
+    // Landing - back to ground
+    if (advanceJump(state)) {
+      state.jumping = false;
+      state.jumpVelocity = 0;
+      state.reachedMinHeight = false;
+      state.jumpReleasePending = false;
+
+      // Speed drop becomes duck when landing, unless duck was already released
+      if (state.speedDrop && state.speedDropGraceTime === 0) {
+        state.speedDrop = false;
+        this.setDuck(true);
+      } else {
+        state.speedDrop = false;
+        state.speedDropGraceTime = 0;
+        this.setTRexState(TREX_STATE.RUNNING);
+      }
+    } else if (state.jumpReleasePending && state.reachedMinHeight) {
+      state.jumpReleasePending = false;
+      releaseJump(state);
+    }
+  }
+
+  /**
+   * Trigger a buffered jump as soon as the T-Rex can jump again, drop it once the window has passed
+   */
+  private updateJumpBuffer(): void {
+    const state = this.state;
+    if (state.jumpBufferTime <= 0) return;
+
+    // A duck within coyote time doesn't hold the jump back either
+    const canJump = !state.jumping && (!state.ducking || state.coyoteTime > 0);
+    if (this.isRunning && canJump) {
+      const released = !state.jumpBufferHeld;
+      this.startJump();
+      // Same as releasing the key during the jump, applied once the jump may be shortened
+      state.jumpReleasePending = released;
+      return;
+    }
+
+    state.jumpBufferTime = Math.max(0, state.jumpBufferTime - SIMULATION_TICK_SECONDS);
+  }
+
+  private setTRexState(trexState: number): void {
+    const previousState = this.state.trexState;
+    if (previousState === trexState) return;
+
+    this.state.trexState = trexState;
+    this.emit({ type: 'stateChange', from: previousState, to: trexState });
+  }
+
+  private emit(event: SimulationEvent): void {
+    this.onEvent?.(event);
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Headless simulation runner
+ * Runs the game logic in Node without Three.js or a browser and prints a JSON summary per run,
+ * for balancing and regression tests. Collisions use the original collision boxes.
+ *
+ *   npm run headless -- --seed 42 --runs 100
+ *   npm run headless -- --replay my-run.json
+ *   npm test                                   (--check: every run repeated and replayed must end identically)
+ *
+ * Runs with tsx, every module imported here has to stay free of three and the DOM.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  createDefaultConfig,
+  GAME_SPEED_ACCELERATION_DEFAULT,
+  GameInput,
+  GameSimulation,
+  SCORE_COEFFICIENT_DEFAULT,
+  SIMULATION_TICK_RATE,
+  TREX_STATE
+} from './gameSimulation.ts';
+import type { SimulationConfig, SimulationEvent, SimulationState } from './gameSimulation.ts';
+import { Autopilot } from './autopilot.ts';
+import { findCollidingObstacle, TREX_X_WORLD, TREX_Y_WORLD } from './collisionBoxes.ts';
+import type { ObstacleInfo } from './obstacleLayout.ts';
+import { parseSeed } from './gameSeed.ts';
+import { parseReplay, ReplayPlayer, ReplayRecorder, serializeReplay } from './replay.ts';
+import type { Replay } from './replay.ts';
+import { getNightCount } from './nightCycle.ts';
+
+const DEFAULT_MAX_TICKS = SIMULATION_TICK_RATE * 60 * 10; // 10 minutes of play
+
+type Player = 'bot' | 'replay' | 'none';
+
+interface RunOptions {
+  seed: number;
+  player: Player;
+  replay: Replay | null;
+  config: SimulationConfig;
+  maxTicks: number;
+  recorder?: ReplayRecorder; // Records the run's inputs
+}
+
+interface CrashCause {
+  obstacleIndex: number;
+  obstacleType: number;
+  groupSize: number;
+  heightOffset: number;
+}
+
+interface RunSummary {
+  seed: number;
+  player: Player;
+  ticks: number;
+  seconds: number;
+  score: number;
+  distanceRan: number;
+  gameSpeed: number;
+  nights: number;
+  crashed: boolean;
+  crashCause: CrashCause | 'recorded' | null; // 'recorded': replay crash without a hitbox hit (readback backend)
+  recordedScore?: number;
+}
+
+function runSimulation(options: RunOptions): RunSummary {
+  const pendingInputs: GameInput[] = [];
+  let crashCause: RunSummary['crashCause'] = null;
+
+  const detectCollision = (state: Readonly<SimulationState>, obstacles: readonly ObstacleInfo[]) => {
+    const obstacle = findCollidingObstacle({
+      centerX: TREX_X_WORLD,
+      centerY: TREX_Y_WORLD + state.jumpOffsetY,
+      ducking: state.trexState === TREX_STATE.DUCKING
+    }, state.distanceRan, obstacles);
+
+    if (obstacle) {
+      crashCause = {
+        obstacleIndex: obstacle.index,
+        obstacleType: obstacle.type,
+        groupSize: obstacle.size,
+        heightOffset: obstacle.heightOffset
+      };
+    }
+    return obstacle !== null;
+  };
+
+  const simulation = new GameSimulation({
+    config: options.config,
+    seed: options.seed,
+    detectCollision,
+    onEvent: (event: SimulationEvent) => {
+      options.recorder?.handleEvent(event);
+      if (event.type === 'restart') crashCause = null;
+    }
+  });
+  const autopilot = new Autopilot(input => pendingInputs.push(input), {
+    trexXWorld: TREX_X_WORLD,
+    trexYWorld: TREX_Y_WORLD
+  });
+  const replayPlayer = options.replay ? new ReplayPlayer(options.replay) : null;
+
+  // Without a player the run starts like the first key press
+  if (options.player === 'none') {
+    simulation.step([GameInput.JUMP_PRESS, GameInput.JUMP_RELEASE]);
+  }
+
+  while (!simulation.isGameOver && simulation.state.tick < options.maxTicks) {
+    if (replayPlayer) {
+      simulation.step(replayPlayer.inputsForTick(simulation.state.tick));
+      if (!simulation.isGameOver && replayPlayer.shouldCrash(simulation.state.tick)) {
+        simulation.crash();
+        crashCause = 'recorded';
+      }
+      if (replayPlayer.isExhausted && options.replay?.crashTick === null) break;
+      continue;
+    }
+
+    if (options.player === 'bot') {
+      autopilot.update(simulation.state, simulation.obstacles);
+    }
+    simulation.step(pendingInputs.splice(0));
+  }
+
+  const state = simulation.state;
+  return {
+    seed: options.seed,
+    player: options.player,
+    ticks: state.tick,
+    seconds: state.tick / SIMULATION_TICK_RATE,
+    score: state.score,
+    distanceRan: state.distanceRan,
+    gameSpeed: state.gameSpeed,
+    nights: getNightCount(state.score),
+    crashed: simulation.isGameOver,
+    crashCause,
+    ...(options.replay ? { recordedScore: options.replay.score } : {})
+  };
+}
+
+function summarize(runs: RunSummary[]) {
+  const scores = runs.map(run => run.score);
+  return {
+    runs: runs.length,
+    crashed: runs.filter(run => run.crashed).length,
+    meanScore: scores.reduce((sum, score) => sum + score, 0) / runs.length,
+    minScore: Math.min(...scores),
+    maxScore: Math.max(...scores)
+  };
+}
+
+/**
+ * Run twice and replay the recorded inputs, all three have to end on the same tick with the same state
+ * Returns the differences found
+ */
+function checkDeterminism(options: RunOptions): string[] {
+  const recorder = new ReplayRecorder(options.seed, options.config);
+  const first = runSimulation({ ...options, recorder });
+  const second = runSimulation(options);
+  // Through the replay file format, runs that didn't crash end with a recorded crash on their last tick
+  const replay = parseReplay(serializeReplay(recorder.toReplay(first.ticks, first.score)));
+  const replayed = runSimulation({ ...options, player: 'replay', replay });
+
+  const differences: string[] = [];
+  const compare = (label: string, run: RunSummary, keys: (keyof RunSummary)[]) => {
+    for (const key of keys) {
+      if (JSON.stringify(run[key]) !== JSON.stringify(first[key])) {
+        differences.push(`seed ${options.seed} ${options.player} ${label}: ${key} ${JSON.stringify(run[key])} != ${JSON.stringify(first[key])}`);
+      }
+    }
+  };
+  compare('repeated', second, ['ticks', 'score', 'distanceRan', 'gameSpeed', 'crashed', 'crashCause']);
+  compare('replayed', replayed, ['ticks', 'score', 'distanceRan', 'gameSpeed']);
+  // An obstacle crash has to happen again in the replay, not only be played back
+  if (first.crashed) compare('replayed', replayed, ['crashCause']);
+
+  return differences;
+}
+
+function runChecks(firstSeed: number, runs: number, config: SimulationConfig, maxTicks: number) {
+  const differences: string[] = [];
+  for (let run = 0; run < runs; run++) {
+    const seed = (firstSeed + run) >>> 0;
+    // The bot exercises inputs, nobody playing crashes early
+    for (const player of ['bot', 'none'] as const) {
+      differences.push(...checkDeterminism({ seed, player, replay: null, config, maxTicks }));
+    }
+  }
+
+  console.log(JSON.stringify({ checkedRuns: runs * 2, differences }, null, 2));
+  if (differences.length > 0) process.exitCode = 1;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string', default: '0' },
+      runs: { type: 'string', default: '1' },
+      player: { type: 'string', default: 'bot' },
+      replay: { type: 'string' },
+      'max-ticks': { type: 'string', default: String(DEFAULT_MAX_TICKS) },
+      acceleration: { type: 'string', default: String(GAME_SPEED_ACCELERATION_DEFAULT) },
+      'score-coefficient': { type: 'string', default: String(SCORE_COEFFICIENT_DEFAULT) },
+      check: { type: 'boolean', default: false }
+    }
+  });
+
+  const maxTicks = Number(values['max-ticks']);
+  const runs: RunSummary[] = [];
+  const config: SimulationConfig = {
+    ...createDefaultConfig(),
+    gameSpeedAcceleration: Number(values.acceleration),
+    scoreCoefficient: Number(values['score-coefficient'])
+  };
+
+  if (values.check) {
+    runChecks(parseSeed(values.seed), Number(values.runs), config, maxTicks);
+    return;
+  }
+
+  if (values.replay) {
+    // Replays bring their own seed and config
+    const replay = parseReplay(readFileSync(values.replay, 'utf8'));
+    runs.push(runSimulation({ seed: replay.seed, player: 'replay', replay, config: replay.config, maxTicks }));
+  } else {
+    const player = values.player;
+    if (player !== 'bot' && player !== 'none') {
+      throw new Error(`Unknown player: ${player} (bot or none)`);
+    }
+
+    // Batches run on consecutive seeds
+    const firstSeed = parseSeed(values.seed);
+    for (let run = 0; run < Number(values.runs); run++) {
+      const seed = (firstSeed + run) >>> 0;
+      runs.push(runSimulation({ seed, player, replay: null, config, maxTicks }));
+    }
+  }
+
+  console.log(JSON.stringify({ runs, summary: summarize(runs) }, null, 2));
+}
+
+main();
@@ -1,19 +1,35 @@
 /**
  * High score functionality
  * Handles localStorage persistence for player high scores
+ * Seeded courses keep a separate best score per seed, the daily challenge one per day
+ * Only the score service (scoreService.ts) reads and writes these
  */
 
+import { GameMode } from './gameSeed.ts';
+import type { GameModeSettings } from './gameSeed.ts';
+
 const HIGH_SCORE_KEY = 'tsl-dino-game-high-score';
+const SEEDED_HIGH_SCORE_KEY_PREFIX = 'tsl-dino-game-seeded-high-score-';
+const DAILY_HIGH_SCORE_KEY_PREFIX = 'tsl-dino-game-daily-high-score-';
+
+type HighScoreSettings = Pick<GameModeSettings, 'mode' | 'seed' | 'dateKey'>;
+
+// Normal runs share the key they always had
+function getHighScoreKey({ mode, seed, dateKey }: HighScoreSettings): string {
+  if (mode === GameMode.DAILY && dateKey) return DAILY_HIGH_SCORE_KEY_PREFIX + dateKey;
+  if (mode === GameMode.SEEDED) return SEEDED_HIGH_SCORE_KEY_PREFIX + seed;
+  return HIGH_SCORE_KEY;
+}
 
-export function getHighScore(): number {
-  const stored = localStorage.getItem(HIGH_SCORE_KEY);
+export function getHighScore(settings: HighScoreSettings): number {
+  const stored = localStorage.getItem(getHighScoreKey(settings));
   return stored ? parseInt(stored, 10) : 0;
 }
 
-export function setHighScore(score: number): void {
-  localStorage.setItem(HIGH_SCORE_KEY, score.toString());
+export function setHighScore(settings: HighScoreSettings, score: number): void {
+  localStorage.setItem(getHighScoreKey(settings), score.toString());
 }
 
-export function clearHighScore(): void {
-  localStorage.removeItem(HIGH_SCORE_KEY);
+export function clearHighScore(settings: HighScoreSettings): void {
+  localStorage.removeItem(getHighScoreKey(settings));
 }
@@ -0,0 +1,113 @@
+/**
+ * Hitbox collision detection system
+ * Tests the original Chrome collision boxes against the CPU obstacle layout every frame
+ * Optionally draws the boxes on top of the game plane in debug mode
+ */
+
+import * as THREE from 'three/webgpu';
+import { findCollidingObstacle, getObstacleHitboxes, getTRexHitboxes } from './collisionBoxes.ts';
+import type { HitboxSet, TRexPose, WorldBox } from './collisionBoxes.ts';
+import type { ObstacleInfo } from './obstacleLayout.ts';
+
+// Debug outline configuration
+const DEBUG_MAX_BOXES = 32;
+const DEBUG_VERTICES_PER_BOX = 8; // 4 line segments
+const DEBUG_OUTLINE_Z = 0.01;     // Slightly in front of the game plane
+const DEBUG_OUTLINE_COLOR = 0xff00ff;
+const DEBUG_OBSTACLE_RANGE = 1.5;
+
+interface HitboxSystemOptions {
+  trexXWorld: number;
+  trexYWorld: number;
+  debugMode: boolean;
+}
+
+interface HitboxDetectionOptions {
+  distanceRan: number;
+  obstacles: readonly ObstacleInfo[];
+  jumpOffsetY: number;
+  ducking: boolean;
+}
+
+export class HitboxCollisionSystem {
+  private options: HitboxSystemOptions;
+  private debugOutlines: THREE.LineSegments | null = null;
+
+  constructor(scene: THREE.Scene, options: HitboxSystemOptions) {
+    this.options = options;
+
+    if (options.debugMode) {
+      this.initDebugOutlines(scene);
+    }
+  }
+
+  private initDebugOutlines(scene: THREE.Scene): void {
+    const positions = new Float32Array(DEBUG_MAX_BOXES * DEBUG_VERTICES_PER_BOX * 3);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setDrawRange(0, 0);
+
+    const material = new THREE.LineBasicNodeMaterial({ color: DEBUG_OUTLINE_COLOR });
+    this.debugOutlines = new THREE.LineSegments(geometry, material);
+    this.debugOutlines.frustumCulled = false;
+    scene.add(this.debugOutlines);
+  }
+
+  private getTRexPose(options: HitboxDetectionOptions): TRexPose {
+    return {
+      centerX: this.options.trexXWorld,
+      centerY: this.options.trexYWorld + options.jumpOffsetY,
+      ducking: options.ducking
+    };
+  }
+
+  /**
+   * Returns the obstacle hit by the T-Rex, or null
+   */
+  detectCollision(options: HitboxDetectionOptions): ObstacleInfo | null {
+    const pose = this.getTRexPose(options);
+
+    if (this.debugOutlines) {
+      this.updateDebugOutlines(pose, options);
+    }
+
+    return findCollidingObstacle(pose, options.distanceRan, options.obstacles);
+  }
+
+  private updateDebugOutlines(pose: TRexPose, options: HitboxDetectionOptions): void {
+    const hitboxSets: HitboxSet[] = [getTRexHitboxes(pose)];
+    for (const obstacle of options.obstacles) {
+      if (Math.abs(obstacle.x - options.distanceRan - pose.centerX) > DEBUG_OBSTACLE_RANGE) continue;
+      hitboxSets.push(getObstacleHitboxes(obstacle, obstacle.x - options.distanceRan));
+    }
+
+    const geometry = this.debugOutlines!.geometry;
+    const attribute = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const positions = attribute.array as Float32Array;
+    const boxes = hitboxSets.flatMap(set => set.boxes).slice(0, DEBUG_MAX_BOXES);
+
+    boxes.forEach((box, index) => writeBoxOutline(positions, index * DEBUG_VERTICES_PER_BOX * 3, box));
+
+    geometry.setDrawRange(0, boxes.length * DEBUG_VERTICES_PER_BOX);
+    attribute.needsUpdate = true;
+  }
+}
+
+function writeBoxOutline(positions: Float32Array, offset: number, box: WorldBox): void {
+  const left = box.left;
+  const right = box.left + box.width;
+  const bottom = box.bottom;
+  const top = box.bottom + box.height;
+  const corners = [
+    left, bottom, right, bottom,
+    right, bottom, right, top,
+    right, top, left, top,
+    left, top, left, bottom
+  ];
+
+  for (let i = 0; i < DEBUG_VERTICES_PER_BOX; i++) {
+    positions[offset + i * 3] = corners[i * 2];
+    positions[offset + i * 3 + 1] = corners[i * 2 + 1];
+    positions[offset + i * 3 + 2] = DEBUG_OUTLINE_Z;
+  }
+}
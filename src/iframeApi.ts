@@ -0,0 +1,142 @@
+/**
+ * postMessage API for iframe embedding
+ * The host page controls the game with commands and is told about scores, game overs and new high scores.
+ * Only origins of the allowlist are answered and listened to: the game's own origin plus VITE_EMBED_ORIGINS
+ * (comma-separated) of the build. The allowlist is part of the build, a URL parameter could be set by any host.
+ *
+ * Every message in either direction carries channel: 'tsl-dino-game'.
+ *   Host -> game: { command: 'start' | 'pause' | 'resume' | 'restart' }
+ *                 { command: 'setTheme', theme: { bgTopLeft: '#000000', ... } }
+ *                 { command: 'mute', muted: boolean }
+ *   Game -> host: { type: 'ready' }
+ *                 { type: 'score', score }                      every milestone (100 points), not every frame
+ *                 { type: 'gameOver', score, highScore }
+ *                 { type: 'highScore', score, previousScore }
+ */
+
+import type { DinoGame, DinoGameTheme } from './dinoGame.ts';
+
+export const IFRAME_CHANNEL = 'tsl-dino-game';
+
+const THEME_KEYS: readonly (keyof DinoGameTheme)[] = ['collisionColor', 'bgBottomLeft', 'bgBottomRight', 'bgTopLeft', 'bgTopRight'];
+
+export type IframeCommand =
+  | { command: 'start' | 'pause' | 'resume' | 'restart' }
+  | { command: 'setTheme'; theme: Partial<DinoGameTheme> }
+  | { command: 'mute'; muted: boolean };
+
+export type IframeMessage =
+  | { type: 'ready' }
+  | { type: 'score'; score: number }
+  | { type: 'gameOver'; score: number; highScore: number }
+  | { type: 'highScore'; score: number; previousScore: number };
+
+/**
+ * Origins allowed to control the game, from the build environment
+ */
+export function getAllowedOrigins(): string[] {
+  const configured = import.meta.env.VITE_EMBED_ORIGINS ?? '';
+  const origins = configured.split(',').map(origin => origin.trim()).filter(origin => origin.length > 0);
+  return [window.location.origin, ...origins];
+}
+
+// Origin of the embedding page if the browser tells it and it is allowed, otherwise the first command reveals it
+function findHostOrigin(allowedOrigins: readonly string[]): string | null {
+  // ancestorOrigins is missing in Firefox
+  let origin: string | null = window.location.ancestorOrigins?.[0] ?? null;
+  if (!origin && document.referrer) {
+    try {
+      origin = new URL(document.referrer).origin;
+    } catch {
+      origin = null;
+    }
+  }
+  return origin && allowedOrigins.includes(origin) ? origin : null;
+}
+
+// Validates untrusted message data, returns null for anything that isn't a known command
+function parseCommand(data: unknown): IframeCommand | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+  if (message.channel !== IFRAME_CHANNEL) return null;
+
+  switch (message.command) {
+    case 'start':
+    case 'pause':
+    case 'resume':
+    case 'restart':
+      return { command: message.command };
+    case 'mute':
+      return typeof message.muted === 'boolean' ? { command: 'mute', muted: message.muted } : null;
+    case 'setTheme': {
+      if (!message.theme || typeof message.theme !== 'object') return null;
+      const source = message.theme as Record<string, unknown>;
+      const theme: Partial<DinoGameTheme> = {};
+      for (const key of THEME_KEYS) {
+        if (typeof source[key] === 'string') theme[key] = source[key];
+      }
+      return { command: 'setTheme', theme };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Connect the game to the parent page, does nothing when the game isn't in an iframe
+ * Returns a function that disconnects it again
+ */
+export function initIframeApi(game: DinoGame, allowedOrigins: readonly string[] = getAllowedOrigins()): () => void {
+  const host = window.parent;
+  if (host === window) return () => {};
+
+  // Messages only go to the host once its origin is known to be allowed
+  let hostOrigin = findHostOrigin(allowedOrigins);
+  const post = (message: IframeMessage) => {
+    if (hostOrigin) host.postMessage({ channel: IFRAME_CHANNEL, ...message }, hostOrigin);
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== host || !allowedOrigins.includes(event.origin)) return;
+
+    const command = parseCommand(event.data);
+    if (!command) return;
+    hostOrigin = event.origin;
+
+    switch (command.command) {
+      case 'start':
+        game.start();
+        break;
+      case 'pause':
+        game.pause();
+        break;
+      case 'resume':
+        game.resume();
+        break;
+      case 'restart':
+        game.restart();
+        break;
+      case 'setTheme':
+        game.setTheme(command.theme);
+        break;
+      case 'mute':
+        game.setMuted(command.muted);
+        break;
+    }
+  };
+  window.addEventListener('message', onMessage);
+
+  const unsubscribers = [
+    // Posting every score change would flood the host with a message per tick
+    game.on('milestone', ({ score }) => post({ type: 'score', score })),
+    game.on('crash', ({ score }) => post({ type: 'gameOver', score, highScore: game.settings.hiScore })),
+    game.on('newHighScore', ({ score, previousScore }) => post({ type: 'highScore', score, previousScore }))
+  ];
+
+  post({ type: 'ready' });
+
+  return () => {
+    window.removeEventListener('message', onMessage);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  };
+}
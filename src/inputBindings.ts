@@ -0,0 +1,210 @@
+/**
+ * Input bindings
+ * Maps keyboard keys and gamepad buttons/sticks to abstract game actions, plus the touch control settings
+ * Handles localStorage persistence of user-remapped bindings
+ */
+
+export const InputAction = {
+  JUMP: 'jump',
+  DUCK: 'duck',
+  RESTART: 'restart',
+  PAUSE: 'pause',
+  MUTE: 'mute'
+} as const;
+export type InputAction = typeof InputAction[keyof typeof InputAction];
+
+export const INPUT_ACTIONS: readonly InputAction[] = Object.values(InputAction);
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  [InputAction.JUMP]: 'Jump',
+  [InputAction.DUCK]: 'Duck',
+  [InputAction.RESTART]: 'Restart',
+  [InputAction.PAUSE]: 'Pause',
+  [InputAction.MUTE]: 'Mute'
+};
+
+/**
+ * Keys are KeyboardEvent.code values, gamepad bindings are
+ * 'button:<index>' or 'axis:<index>:<+|->' (standard gamepad mapping indices)
+ */
+export interface ActionBindings {
+  keys: string[];
+  gamepad: string[];
+}
+
+export type InputBindings = Record<InputAction, ActionBindings>;
+
+export type GamepadBinding =
+  | { kind: 'button'; index: number }
+  | { kind: 'axis'; index: number; direction: 1 | -1 };
+
+// Stick deflection that counts as pressed
+export const GAMEPAD_AXIS_THRESHOLD = 0.5;
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  [InputAction.JUMP]: { keys: ['Space', 'ArrowUp'], gamepad: ['button:0', 'button:12', 'axis:1:-'] }, // A, D-pad up, stick up
+  [InputAction.DUCK]: { keys: ['ArrowDown'], gamepad: ['button:1', 'button:13', 'axis:1:+'] },         // B, D-pad down, stick down
+  [InputAction.RESTART]: { keys: ['Enter'], gamepad: ['button:8'] },                                   // Back/Select
+  [InputAction.PAUSE]: { keys: ['KeyP', 'Escape'], gamepad: ['button:9'] },                             // Start
+  [InputAction.MUTE]: { keys: ['KeyM'], gamepad: [] }
+};
+
+const INPUT_BINDINGS_KEY = 'tsl-dino-game-input-bindings';
+
+export function cloneInputBindings(bindings: InputBindings): InputBindings {
+  const clone = {} as InputBindings;
+  for (const action of INPUT_ACTIONS) {
+    clone[action] = { keys: [...bindings[action].keys], gamepad: [...bindings[action].gamepad] };
+  }
+  return clone;
+}
+
+/**
+ * Stored bindings, falling back to the defaults for missing or invalid actions
+ */
+export function getInputBindings(): InputBindings {
+  const bindings = cloneInputBindings(DEFAULT_INPUT_BINDINGS);
+  const stored = localStorage.getItem(INPUT_BINDINGS_KEY);
+  if (!stored) return bindings;
+
+  try {
+    const json = JSON.parse(stored);
+    for (const action of INPUT_ACTIONS) {
+      const entry = json?.[action];
+      if (isStringArray(entry?.keys) && isStringArray(entry?.gamepad)) {
+        bindings[action] = {
+          keys: [...entry.keys],
+          gamepad: entry.gamepad.filter((binding: string) => parseGamepadBinding(binding) !== null)
+        };
+      }
+    }
+  } catch (error) {
+    console.warn('Ignoring invalid input bindings:', error);
+  }
+
+  return bindings;
+}
+
+export function setInputBindings(bindings: InputBindings): void {
+  localStorage.setItem(INPUT_BINDINGS_KEY, JSON.stringify(bindings));
+}
+
+export function clearInputBindings(): void {
+  localStorage.removeItem(INPUT_BINDINGS_KEY);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export function parseGamepadBinding(binding: string): GamepadBinding | null {
+  const button = /^button:(\d+)$/.exec(binding);
+  if (button) {
+    return { kind: 'button', index: Number(button[1]) };
+  }
+
+  const axis = /^axis:(\d+):([+-])$/.exec(binding);
+  if (axis) {
+    return { kind: 'axis', index: Number(axis[1]), direction: axis[2] === '+' ? 1 : -1 };
+  }
+
+  return null;
+}
+
+export function isGamepadBindingActive(gamepad: Gamepad, binding: GamepadBinding): boolean {
+  if (binding.kind === 'button') {
+    return gamepad.buttons[binding.index]?.pressed ?? false;
+  }
+
+  const value = gamepad.axes[binding.index] ?? 0;
+  return value * binding.direction > GAMEPAD_AXIS_THRESHOLD;
+}
+
+/**
+ * Binding of the first button or stick direction that is active on the gamepad, if any
+ */
+export function findActiveGamepadBinding(gamepad: Gamepad): string | null {
+  const buttonIndex = gamepad.buttons.findIndex(button => button.pressed);
+  if (buttonIndex >= 0) {
+    return `button:${buttonIndex}`;
+  }
+
+  const axisIndex = gamepad.axes.findIndex(value => Math.abs(value) > GAMEPAD_AXIS_THRESHOLD);
+  if (axisIndex >= 0) {
+    return `axis:${axisIndex}:${gamepad.axes[axisIndex] > 0 ? '+' : '-'}`;
+  }
+
+  return null;
+}
+
+// Names of the standard gamepad mapping (Xbox layout)
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3',
+  'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right', 'Home'
+];
+
+const GAMEPAD_AXIS_NAMES = ['Left Stick X', 'Left Stick Y', 'Right Stick X', 'Right Stick Y'];
+
+export function formatKeyBinding(code: string): string {
+  if (code === 'Space') return 'Space';
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Arrow')) return `${code.slice(5)} Arrow`;
+  return code;
+}
+
+export function formatGamepadBinding(binding: string): string {
+  const parsed = parseGamepadBinding(binding);
+  if (!parsed) return binding;
+
+  if (parsed.kind === 'button') {
+    return `Pad ${GAMEPAD_BUTTON_NAMES[parsed.index] ?? `Button ${parsed.index}`}`;
+  }
+
+  const axisName = GAMEPAD_AXIS_NAMES[parsed.index] ?? `Axis ${parsed.index}`;
+  return `Pad ${axisName} ${parsed.direction > 0 ? '+' : '-'}`;
+}
+
+/*
+  ==== TOUCH ====
+*/
+export const TouchControlMode = {
+  GESTURES: 'gestures', // Tap/swipe anywhere on the game canvas
+  BUTTONS: 'buttons'    // On-screen jump/duck buttons
+} as const;
+export type TouchControlMode = typeof TouchControlMode[keyof typeof TouchControlMode];
+
+export interface TouchSettings {
+  mode: TouchControlMode;
+  swipeDeadZone: number; // Pixels a touch has to move before it counts as a swipe
+  edgeDeadZone: number;  // Touches starting this close to the screen edge are ignored (system gestures)
+}
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = {
+  mode: TouchControlMode.GESTURES,
+  swipeDeadZone: 24,
+  edgeDeadZone: 16
+};
+
+const TOUCH_SETTINGS_KEY = 'tsl-dino-game-touch-settings';
+
+export function getTouchSettings(): TouchSettings {
+  const settings = { ...DEFAULT_TOUCH_SETTINGS };
+  const stored = localStorage.getItem(TOUCH_SETTINGS_KEY);
+  if (!stored) return settings;
+
+  try {
+    const json = JSON.parse(stored);
+    if (Object.values(TouchControlMode).includes(json?.mode)) settings.mode = json.mode;
+    if (Number.isFinite(json?.swipeDeadZone)) settings.swipeDeadZone = json.swipeDeadZone;
+    if (Number.isFinite(json?.edgeDeadZone)) settings.edgeDeadZone = json.edgeDeadZone;
+  } catch (error) {
+    console.warn('Ignoring invalid touch settings:', error);
+  }
+
+  return settings;
+}
+
+export function setTouchSettings(settings: TouchSettings): void {
+  localStorage.setItem(TOUCH_SETTINGS_KEY, JSON.stringify(settings));
+}
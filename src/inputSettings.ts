@@ -0,0 +1,244 @@
+/**
+ * Controls settings panel
+ * Lists the bindings of every action and lets the player add, remove and reset them,
+ * plus the touch control mode and its dead zones
+ */
+
+import {
+  cloneInputBindings,
+  clearInputBindings,
+  DEFAULT_INPUT_BINDINGS,
+  DEFAULT_TOUCH_SETTINGS,
+  formatGamepadBinding,
+  formatKeyBinding,
+  getInputBindings,
+  getTouchSettings,
+  INPUT_ACTION_LABELS,
+  INPUT_ACTIONS,
+  setInputBindings,
+  setTouchSettings,
+  TouchControlMode
+} from './inputBindings.ts';
+import type { InputAction, InputBindings, TouchSettings } from './inputBindings.ts';
+import {
+  cancelBindingCapture,
+  captureNextBinding,
+  setActiveInputBindings,
+  setActiveTouchSettings
+} from './tRexControls.ts';
+
+interface InputSettingsCallbacks {
+  onOpen?: () => void;
+  onTouchSettingsChange?: (settings: TouchSettings) => void;
+}
+
+const TOUCH_MODE_LABELS: Record<TouchControlMode, string> = {
+  [TouchControlMode.GESTURES]: 'Gestures',
+  [TouchControlMode.BUTTONS]: 'Buttons'
+};
+
+const DEAD_ZONE_MAX = 96; // Pixels
+
+let bindings: InputBindings = getInputBindings();
+let touchSettings: TouchSettings = getTouchSettings();
+let capturingAction: InputAction | null = null;
+
+export function initInputSettings(callbacks: InputSettingsCallbacks = {}) {
+  const openButton = document.getElementById('input-settings-button') as HTMLButtonElement;
+  const panel = document.getElementById('input-settings') as HTMLDivElement;
+  const list = document.getElementById('input-settings-list') as HTMLDivElement;
+  const touchList = document.getElementById('input-settings-touch') as HTMLDivElement;
+  const resetButton = document.getElementById('input-settings-reset') as HTMLButtonElement;
+  const closeButton = document.getElementById('input-settings-close') as HTMLButtonElement;
+
+  if (!openButton || !panel || !list || !touchList || !resetButton || !closeButton) return;
+
+  const applyTouch = (settings: TouchSettings, persist = true) => {
+    touchSettings = settings;
+    setActiveTouchSettings({ ...touchSettings });
+    if (persist) setTouchSettings(touchSettings);
+    callbacks.onTouchSettingsChange?.({ ...touchSettings });
+  };
+
+  const render = () => {
+    renderBindingList(list, render);
+    renderTouchSettings(touchList, applyTouch);
+  };
+
+  const close = () => {
+    stopCapture();
+    panel.style.display = 'none';
+  };
+
+  openButton.addEventListener('click', () => {
+    if (panel.style.display !== 'none') {
+      close();
+      return;
+    }
+    callbacks.onOpen?.();
+    panel.style.display = 'block';
+    render();
+  });
+
+  resetButton.addEventListener('click', () => {
+    stopCapture();
+    clearInputBindings();
+    applyBindings(cloneInputBindings(DEFAULT_INPUT_BINDINGS), false);
+    applyTouch({ ...DEFAULT_TOUCH_SETTINGS });
+    render();
+  });
+
+  closeButton.addEventListener('click', close);
+}
+
+function applyBindings(newBindings: InputBindings, persist = true) {
+  bindings = newBindings;
+  setActiveInputBindings(cloneInputBindings(bindings));
+  if (persist) setInputBindings(bindings);
+}
+
+function stopCapture() {
+  capturingAction = null;
+  cancelBindingCapture();
+}
+
+function renderBindingList(list: HTMLDivElement, render: () => void) {
+  list.replaceChildren();
+
+  for (const action of INPUT_ACTIONS) {
+    const row = document.createElement('div');
+    row.className = 'input-settings-row';
+
+    const label = document.createElement('span');
+    label.className = 'input-settings-action';
+    label.textContent = INPUT_ACTION_LABELS[action];
+    row.appendChild(label);
+
+    const chips = document.createElement('span');
+    chips.className = 'input-settings-bindings';
+
+    // Clicking a binding removes it
+    bindings[action].keys.forEach(code => {
+      chips.appendChild(createBindingChip(formatKeyBinding(code), () => {
+        const updated = cloneInputBindings(bindings);
+        updated[action].keys = updated[action].keys.filter(key => key !== code);
+        applyBindings(updated);
+        render();
+      }));
+    });
+    bindings[action].gamepad.forEach(gamepadBinding => {
+      chips.appendChild(createBindingChip(formatGamepadBinding(gamepadBinding), () => {
+        const updated = cloneInputBindings(bindings);
+        updated[action].gamepad = updated[action].gamepad.filter(binding => binding !== gamepadBinding);
+        applyBindings(updated);
+        render();
+      }));
+    });
+    row.appendChild(chips);
+
+    const addButton = document.createElement('button');
+    addButton.type = 'button';
+    addButton.textContent = capturingAction === action ? 'Press a key or button…' : 'Add';
+    addButton.addEventListener('click', () => {
+      if (capturingAction === action) {
+        stopCapture();
+        render();
+        return;
+      }
+
+      capturingAction = action;
+      captureNextBinding(captured => {
+        capturingAction = null;
+        const updated = cloneInputBindings(bindings);
+        const target = captured.type === 'key' ? updated[action].keys : updated[action].gamepad;
+        const value = captured.type === 'key' ? captured.code : captured.binding;
+        if (!target.includes(value)) target.push(value);
+        applyBindings(updated);
+        render();
+      });
+      render();
+    });
+    row.appendChild(addButton);
+
+    list.appendChild(row);
+  }
+}
+
+function renderTouchSettings(container: HTMLDivElement, applyTouch: (settings: TouchSettings) => void) {
+  container.replaceChildren();
+
+  const heading = document.createElement('div');
+  heading.className = 'input-settings-heading';
+  heading.textContent = 'Touch';
+  container.appendChild(heading);
+
+  const modeSelect = document.createElement('select');
+  for (const mode of Object.values(TouchControlMode)) {
+    const option = document.createElement('option');
+    option.value = mode;
+    option.textContent = TOUCH_MODE_LABELS[mode];
+    modeSelect.appendChild(option);
+  }
+  modeSelect.value = touchSettings.mode;
+  modeSelect.addEventListener('change', () => {
+    applyTouch({ ...touchSettings, mode: modeSelect.value as TouchControlMode });
+  });
+  container.appendChild(createTouchRow('Mode', modeSelect));
+
+  const swipeInput = createDeadZoneInput(touchSettings.swipeDeadZone, value => {
+    applyTouch({ ...touchSettings, swipeDeadZone: value });
+  });
+  container.appendChild(createTouchRow('Swipe dead zone', swipeInput));
+
+  const edgeInput = createDeadZoneInput(touchSettings.edgeDeadZone, value => {
+    applyTouch({ ...touchSettings, edgeDeadZone: value });
+  });
+  container.appendChild(createTouchRow('Edge dead zone', edgeInput));
+}
+
+function createTouchRow(text: string, control: HTMLElement): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = 'input-settings-row';
+
+  const label = document.createElement('span');
+  label.className = 'input-settings-action';
+  label.textContent = text;
+  row.appendChild(label);
+  row.appendChild(control);
+
+  return row;
+}
+
+function createDeadZoneInput(value: number, onChange: (value: number) => void): HTMLSpanElement {
+  const wrapper = document.createElement('span');
+  wrapper.className = 'input-settings-bindings';
+
+  const input = document.createElement('input');
+  input.type = 'range';
+  input.min = '0';
+  input.max = String(DEAD_ZONE_MAX);
+  input.step = '1';
+  input.value = String(value);
+
+  const valueLabel = document.createElement('span');
+  valueLabel.textContent = `${value}px`;
+
+  input.addEventListener('input', () => {
+    valueLabel.textContent = `${input.value}px`;
+  });
+  input.addEventListener('change', () => onChange(Number(input.value)));
+
+  wrapper.appendChild(input);
+  wrapper.appendChild(valueLabel);
+  return wrapper;
+}
+
+function createBindingChip(text: string, onRemove: () => void): HTMLButtonElement {
+  const chip = document.createElement('button');
+  chip.type = 'button';
+  chip.className = 'input-settings-binding';
+  chip.textContent = text;
+  chip.title = 'Remove binding';
+  chip.addEventListener('click', onRemove);
+  return chip;
+}
@@ -0,0 +1,170 @@
+/**
+ * Leaderboard screen
+ * Shown after game over: top runs of the current mode, the player name and
+ * export/import of the run history
+ */
+
+import { GameMode } from './gameSeed.ts';
+import {
+  addRun,
+  exportRunHistory,
+  getLeaderboard,
+  getPlayerName,
+  importRunHistory,
+  setPlayerName,
+  updateRun
+} from './runHistory.ts';
+import type { RunRecord } from './runHistory.ts';
+
+const MODE_LABELS: Record<GameMode, string> = {
+  [GameMode.NORMAL]: 'Normal',
+  [GameMode.SEEDED]: 'Seeded',
+  [GameMode.DAILY]: 'Daily'
+};
+
+let currentMode: GameMode = GameMode.NORMAL;
+let currentDateKey: string | null = null;
+let lastRun: RunRecord | null = null; // Run of the last game over, highlighted and renamed with the name field
+let hideCount = 0; // Leaderboards still loading when it is hidden (a new run started) never show up
+
+export function initLeaderboard() {
+  const panel = document.getElementById('leaderboard') as HTMLDivElement;
+  const modeSelect = document.getElementById('leaderboard-mode') as HTMLSelectElement;
+  const nameInput = document.getElementById('leaderboard-name') as HTMLInputElement;
+  const exportButton = document.getElementById('leaderboard-export') as HTMLButtonElement;
+  const importButton = document.getElementById('leaderboard-import') as HTMLButtonElement;
+  const fileInput = document.getElementById('leaderboard-file-input') as HTMLInputElement;
+  const closeButton = document.getElementById('leaderboard-close') as HTMLButtonElement;
+
+  if (!panel || !modeSelect || !nameInput || !exportButton || !importButton || !fileInput || !closeButton) return;
+
+  for (const mode of Object.values(GameMode)) {
+    const option = document.createElement('option');
+    option.value = mode;
+    option.textContent = MODE_LABELS[mode];
+    modeSelect.appendChild(option);
+  }
+  modeSelect.addEventListener('change', () => {
+    currentMode = modeSelect.value as GameMode;
+    renderLeaderboard().catch(console.warn);
+  });
+
+  nameInput.value = getPlayerName();
+  nameInput.addEventListener('change', () => {
+    setPlayerName(nameInput.value);
+    nameInput.value = getPlayerName();
+    if (!lastRun) return;
+
+    // Renaming applies to the run that was just recorded as well
+    lastRun.playerName = nameInput.value;
+    updateRun(lastRun).then(renderLeaderboard).catch(console.warn);
+  });
+
+  // Keys typed into the name field must not control the T-Rex
+  nameInput.addEventListener('keydown', e => e.stopPropagation());
+  nameInput.addEventListener('keyup', e => e.stopPropagation());
+
+  exportButton.addEventListener('click', () => {
+    exportRunHistory().then(downloadHistory).catch(console.warn);
+  });
+
+  importButton.addEventListener('click', () => fileInput.click());
+
+  fileInput.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+
+    file.text()
+      .then(importRunHistory)
+      .then(added => {
+        console.log(`Imported ${added} runs`);
+        return renderLeaderboard();
+      })
+      .catch(error => console.warn('Failed to import run history:', error));
+  });
+
+  closeButton.addEventListener('click', hideLeaderboard);
+}
+
+/**
+ * Store a finished run under the current player name and show it on the leaderboard of its mode
+ */
+export async function recordRun(run: Omit<RunRecord, 'id' | 'playerName'>): Promise<void> {
+  const record: RunRecord = { ...run, playerName: getPlayerName() };
+  const hidesBefore = hideCount;
+  record.id = await addRun(record);
+  // The run is kept, but the next one has already started
+  if (hideCount !== hidesBefore) return;
+
+  lastRun = record;
+  await showLeaderboard(run.mode, run.dateKey);
+}
+
+export async function showLeaderboard(mode: GameMode, dateKey: string | null = null): Promise<void> {
+  const panel = document.getElementById('leaderboard');
+  const modeSelect = document.getElementById('leaderboard-mode') as HTMLSelectElement | null;
+  if (!panel) return;
+
+  currentMode = mode;
+  currentDateKey = dateKey;
+  if (modeSelect) modeSelect.value = mode;
+
+  const hidesBefore = hideCount;
+  await renderLeaderboard();
+  if (hideCount === hidesBefore) panel.style.display = 'block';
+}
+
+export function hideLeaderboard() {
+  const panel = document.getElementById('leaderboard');
+  if (panel) panel.style.display = 'none';
+  lastRun = null;
+  hideCount++;
+}
+
+async function renderLeaderboard(): Promise<void> {
+  const list = document.getElementById('leaderboard-list');
+  if (!list) return;
+
+  const runs = await getLeaderboard(currentMode, currentDateKey);
+  list.replaceChildren();
+
+  if (runs.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'leaderboard-empty';
+    empty.textContent = 'No runs yet';
+    list.appendChild(empty);
+    return;
+  }
+
+  for (const run of runs) {
+    const item = document.createElement('li');
+    if (lastRun && run.id === lastRun.id) item.className = 'leaderboard-current';
+
+    const name = document.createElement('span');
+    name.className = 'leaderboard-name';
+    name.textContent = run.playerName;
+
+    const score = document.createElement('span');
+    score.className = 'leaderboard-score';
+    score.textContent = String(run.score).padStart(5, '0');
+
+    const details = document.createElement('span');
+    details.className = 'leaderboard-details';
+    details.textContent = `${new Date(run.date).toLocaleDateString()} · ${run.duration.toFixed(0)}s`;
+    details.title = `Seed ${run.seed}, max speed ${run.maxSpeed.toFixed(2)}, distance ${run.distance.toFixed(1)}`;
+
+    item.append(name, score, details);
+    list.appendChild(item);
+  }
+}
+
+function downloadHistory(json: string) {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tsl-dino-runs-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
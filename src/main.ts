@@ -1,169 +1,150 @@
 import './style.css'
-import * as THREE from 'three/webgpu'
-import { texture, uniform } from 'three/tsl';
-import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
-import { TREX_STATE } from './tsl/tslTRex.ts';
-import { controlsTRex, initTRexControls } from './tRexControls.ts';
-import { getHighScore, setHighScore } from './highScore.ts';
-import { createFragmentShader } from './tsl/fragmentShader.ts';
+import { SIMULATION_TICK_SECONDS } from './gameSimulation.ts';
+import { createDefaultSettings, createDinoGame } from './dinoGame.ts';
+import { initInputSettings } from './inputSettings.ts';
+import { createScoreService } from './scoreService.ts';
+import { getPlayerName } from './runHistory.ts';
+import { GameMode, nextRunSettings, resolveGameMode } from './gameSeed.ts';
 import { initDebugGui, updateReferenceImage } from './debugGui.ts';
-import { CollisionDetectionSystem } from './collisionDetection.ts';
-import { calculateResponsiveCameraZ, CameraAnimation } from './cameraAnimation.ts';
-import { tslBackground } from './tsl/tslBackground.ts';
-import { playSound, SoundType } from './soundPlayer.ts';
-import { ACHIEVEMENT_DISTANCE } from './tsl/tslScore.ts';
+import type { GameOptions } from './debugGui.ts';
+import { Autopilot } from './autopilot.ts';
+import { TREX_X_WORLD, TREX_Y_WORLD } from './collisionBoxes.ts';
+import { hideLeaderboard, initLeaderboard, recordRun } from './leaderboard.ts';
+import { AchievementTracker } from './achievements.ts';
+import { announceAchievement, initAchievementsView } from './achievementsView.ts';
+import { initSoundSettings } from './soundSettingsView.ts';
+import { CameraAnimation } from './cameraAnimation.ts';
+import { initIframeApi } from './iframeApi.ts';
+import type { GameEvents } from './gameEvents.ts';
+import {
+  initReplayControls,
+  loadReplayParam,
+  ReplayPlayer,
+  ReplayRecorder,
+  setReplayControlsVisible
+} from './replay.ts';
+import type { Replay } from './replay.ts';
 
 /*
   ==== CONSTANTS ====
 */
-// Base plane dimensions (world units)
-export const PLANE_WIDTH = 6;
-export const PLANE_HEIGHT = 1.5;
-
-// T-Rex position (world coordinates)
-const TREX_X_WORLD = -2.79;
-
-// Camera settings
-const CAMERA_NEAR = 0.1;
-const CAMERA_FAR = 100;
-
-// Game speed settings
-const GAME_SPEED_START = 3.8;
-const GAME_SPEED_MAX = 7.8;
-const GAME_SPEED_ACCELERATION_DEFAULT = 0.01;
-
-// Collision detection settings
-const COLLISION_DETECTION_INTERVAL = 0.05; // 50ms = 20 FPS for collision detection
-
 // Debug mode check
 const urlParams = new URLSearchParams(window.location.search);
 const DEBUG_MODE = urlParams.has('debug');
 
-// Default collision color
-const DEFAULT_COLLISION_COLOR = new THREE.Color(0x444444);
-
-
-const scene = new THREE.Scene()
-
-const camera = new THREE.PerspectiveCamera(
-  78,
-  window.innerWidth / window.innerHeight,
-  CAMERA_NEAR,
-  CAMERA_FAR
-)
-// Set responsive camera z position
-const initialCameraZ = calculateResponsiveCameraZ(camera);
-camera.position.z = initialCameraZ
-
-const renderer = new THREE.WebGPURenderer({alpha: true, antialias: true})
-renderer.setSize(window.innerWidth, window.innerHeight)
-renderer.outputColorSpace = THREE.SRGBColorSpace
-document.body.appendChild(renderer.domElement)
-renderer.setAnimationLoop(animate)
-
-window.addEventListener('resize', () => {
-  camera.aspect = window.innerWidth / window.innerHeight
-  camera.updateProjectionMatrix()
-  camera.position.z = calculateResponsiveCameraZ(camera);
-  renderer.setSize(window.innerWidth, window.innerHeight)
-})
-
-const controls = new OrbitControls(camera, renderer.domElement)
-controls.enableDamping = true
-
-const options = {
-  gameSpeed: GAME_SPEED_START,
-  gameSpeedAcceleration: GAME_SPEED_ACCELERATION_DEFAULT,
-  trexState: TREX_STATE.WAITING as number, // T-Rex state (also indicates overall game state)
-  jumpOffsetY: 0,
-  score: 0,
-  hiScore: getHighScore(),
-  scoreCoefficient: 1.8,
-  distanceRan: 0,
-  collisionColor: '#' + DEFAULT_COLLISION_COLOR.getHexString(),
-  // Background gradient colors
-  bgBottomLeft: '#dc2626',
-  bgBottomRight: '#7c3aed',
-  bgTopLeft: '#059669',
-  bgTopRight: '#1e40af',
+// Collision backend: 'readback' (shader pixels, default) or 'hitbox' (CPU collision boxes)
+// In debug mode the other backend runs alongside and logs its detections for comparison
+const COLLISION_BACKEND = urlParams.get('collision') === 'hitbox' ? 'hitbox' : 'readback';
+
+// Course seed and mode: ?seed=<value> fixes the course, ?daily plays today's challenge
+let gameModeSettings = resolveGameMode(urlParams);
+// ?scoreServer=<url> keeps scores on a leaderboard server instead of only in this browser
+const scoreService = createScoreService(urlParams);
+
+const options: GameOptions = {
+  ...createDefaultSettings(),
+  hiScore: scoreService.getLocalHighScore(gameModeSettings),
   // Reference overlay options
   referenceImage: 'None', //'Reference 01',
   referenceOpacity: 50,
   referenceColorShift: true,
   referenceScale: 88.6,
   // Camera animation options
-  cameraAnimationEnabled: false
+  cameraAnimationEnabled: false,
+  // ?autoplay lets the built-in bot play (attract mode, soak tests)
+  autopilotEnabled: urlParams.has('autoplay')
 }
-// Helper functions to check game state
-const isGameOver = () => options.trexState === TREX_STATE.CRASHED;
-const isGameRunning = () => options.trexState !== TREX_STATE.WAITING && options.trexState !== TREX_STATE.CRASHED;
 
+/*
+  ==== GAME ====
+*/
+// The page runs one full-window game, replays and the autopilot hook into its ticks, achievements into its events
+const game = createDinoGame(document.getElementById('app') as HTMLDivElement, {
+  seed: gameModeSettings.seed,
+  settings: options, // Game settings stay editable in the debug GUI
+  collisionBackend: COLLISION_BACKEND,
+  debugMode: DEBUG_MODE,
+  globalKeyboard: true,
+  mobileButtons: true,
+  music: true,
+  // Keyboard is ignored while a replay or the autopilot plays
+  acceptInput: () => !replayPlayer && !options.autopilotEnabled,
+  isReplaying: () => replayPlayer !== null,
+  onSimulationEvent: event => replayRecorder.handleEvent(event),
+  beforeStep,
+  afterStep,
+  onFrame: () => gui?.updateDisplay()
+});
+const gameState = game.state;
+
+// Embedded in an iframe the host page can control the game (allowed origins only)
+initIframeApi(game);
 
 /*
-  ==== UNIFORMS ====
+  ==== REPLAYS ====
 */
-const uniformDistanceRan = uniform(options.distanceRan)
-const uniformTRexState = uniform(options.trexState as number)
-const uniformJumpOffsetY = uniform(options.jumpOffsetY)
-const uniformScore = uniform(options.score)
-const uniformHiScore = uniform(options.hiScore)
-const uniformCollisionColor = uniform(new THREE.Color(options.collisionColor))
-
-// Background gradient uniforms
-const uniformBgBottomLeft = uniform(new THREE.Color(options.bgBottomLeft))
-const uniformBgBottomRight = uniform(new THREE.Color(options.bgBottomRight))
-const uniformBgTopLeft = uniform(new THREE.Color(options.bgTopLeft))
-const uniformBgTopRight = uniform(new THREE.Color(options.bgTopRight))
-
-// Load sprite sheet texture
-const textureLoader = new THREE.TextureLoader()
-const spriteTexture = textureLoader.load('/default_100_percent/100-offline-sprite.png')
-// Configure texture for pixel-perfect sprites
-spriteTexture.magFilter = THREE.NearestFilter
-spriteTexture.minFilter = THREE.NearestFilter
-spriteTexture.generateMipmaps = false
-spriteTexture.colorSpace = THREE.SRGBColorSpace // sRGB to match original Chrome dino game colors
-const spriteTextureNode = texture(spriteTexture)
+const replayRecorder = new ReplayRecorder(gameModeSettings.seed, options);
+let replayPlayer: ReplayPlayer | null = null; // Set while a replay drives the simulation
+let lastReplay: Replay | null = null;
+
+function startReplay(replay: Replay) {
+  console.log(`Playing replay (score ${replay.score}, ${replay.inputs.length} inputs)`);
+  Object.assign(options, replay.config);
+  setCourseSeed(replay.seed);
+
+  game.reset();
+  replayRecorder.reset();
+  autopilot.release();
+  replayPlayer = new ReplayPlayer(replay);
+  setReplayControlsVisible(false);
+  hideLeaderboard();
+}
+
+function stopReplay() {
+  replayPlayer = null;
+}
 
 /*
-  ==== FRAGMENT SHADER ====
+  ==== COURSE SEED ====
 */
-const fragmentShader = createFragmentShader({
-  spriteTextureNode,
-  uniformDistanceRan,
-  uniformTRexState,
-  uniformJumpOffsetY,
-  uniformScore,
-  uniformHiScore,
-  uniformCollisionColor
-});
+function setCourseSeed(seed: number) {
+  game.setSeed(seed);
+  replayRecorder.setSeed(seed);
+}
 
-const material = new THREE.NodeMaterial()
-material.fragmentNode = fragmentShader()
-material.side = THREE.DoubleSide
+// The local best shows right away, the score service may know a better one (e.g. from another device)
+function refreshHighScore() {
+  const settings = gameModeSettings;
+  game.setHighScore(scoreService.getLocalHighScore(settings));
+
+  scoreService.getHighScore(settings, getPlayerName())
+    .then(score => {
+      // Ignore answers for a previous run's mode or day
+      if (settings !== gameModeSettings || score <= options.hiScore) return;
+      game.setHighScore(score);
+    })
+    .catch(console.warn);
+}
+refreshHighScore();
 
-const mesh = new THREE.Mesh(new THREE.PlaneGeometry(PLANE_WIDTH, PLANE_HEIGHT), material)
-scene.add(mesh)
+// Every new run (outside replays) gets the seed of the current mode
+function startNextRun() {
+  gameModeSettings = nextRunSettings(gameModeSettings);
+  setCourseSeed(gameModeSettings.seed);
 
-// Set colorful gradient background directly on scene
-scene.backgroundNode = tslBackground({
-  bottomLeft: uniformBgBottomLeft,
-  bottomRight: uniformBgBottomRight,
-  topLeft: uniformBgTopLeft,
-  topRight: uniformBgTopRight
-})()
+  // The daily best changes with the date
+  refreshHighScore();
+}
 
-// Raycaster for restart button click detection
-const raycaster = new THREE.Raycaster()
-const mouse = new THREE.Vector2()
+if (gameModeSettings.mode !== GameMode.NORMAL) {
+  console.log(`Game mode: ${gameModeSettings.mode}, seed ${gameModeSettings.seed}`);
+}
 
 /*
   ==== DEBUG GUI & CONTROLS ====
 */
-const distanceRanRef = {value: 0}; // Reference for GUI to update distanceRan
-
 // Initialize camera animation system
-const cameraAnimation = new CameraAnimation(camera, controls);
+const cameraAnimation = new CameraAnimation(game.camera, game.controls);
 
 // Start animation if enabled
 if (options.cameraAnimationEnabled) {
@@ -172,178 +153,138 @@ if (options.cameraAnimationEnabled) {
 
 const gui = initDebugGui(
   options,
-  {
-    uniformDistanceRan,
-    uniformTRexState,
-    uniformJumpOffsetY,
-    uniformScore,
-    uniformHiScore,
-    uniformCollisionColor
-  },
-  {
-    uniformBgBottomLeft,
-    uniformBgBottomRight,
-    uniformBgTopLeft,
-    uniformBgTopRight
-  },
-  distanceRanRef,
+  gameState,
+  game.uniforms,
+  game.uniforms,
   (enabled: boolean) => cameraAnimation.toggle(enabled),
-  camera
+  game.camera,
+  setAutopilotEnabled,
+  () => scoreService.clearLocalHighScore(gameModeSettings)
 );
 
 updateReferenceImage(options)
 
-// Initialize T-Rex controls
-initTRexControls(
-  (newState: number) => {
-    // Handle state transitions and play appropriate sounds
-    const previousState = options.trexState;
-    options.trexState = newState;
-    uniformTRexState.value = options.trexState;
-
-    // sound on jump and game start
-    if ((previousState === TREX_STATE.RUNNING && newState === TREX_STATE.JUMPING)
-      || (previousState === TREX_STATE.WAITING && newState === TREX_STATE.RUNNING)) {
-      playSound(SoundType.BUTTON_PRESS);
-    }
-  },
-  () => options.trexState,
-  gameRestart
-);
-
-// Game restart function
-function gameRestart() {
-  console.log('Restarting game.');
-
-  // Play restart sound
-  playSound(SoundType.BUTTON_PRESS);
-
-  // Reset game state variables
-  options.distanceRan = 0;
-  options.gameSpeed = GAME_SPEED_START;
-  options.score = 0;
-  options.jumpOffsetY = 0;
-  options.trexState = TREX_STATE.RUNNING; // Start running immediately after restart
-
-  // Update uniforms
-  uniformDistanceRan.value = options.distanceRan;
-  uniformScore.value = options.score;
-  uniformJumpOffsetY.value = options.jumpOffsetY;
-  uniformTRexState.value = options.trexState;
+// The autopilot queues its inputs like a player, so its runs are recorded as replays too
+const autopilot = new Autopilot(input => game.queueInput(input), {
+  trexXWorld: TREX_X_WORLD,
+  trexYWorld: TREX_Y_WORLD,
+  autoRestart: true
+});
 
-  // Reset distance counter
-  distanceRan = 0;
+function setAutopilotEnabled(enabled: boolean) {
+  options.autopilotEnabled = enabled;
+  if (!enabled) autopilot.release();
+  if (DEBUG_MODE) console.log(`Autopilot ${enabled ? 'on' : 'off'}.`);
 }
 
-// Mouse click handler for restart
-function onMouseClick(event: MouseEvent) {
-  // Only handle clicks when game is over
-  if (!isGameOver()) return;
+// Opening the controls settings pauses a running game
+initInputSettings({
+  onOpen: () => game.pause(),
+  onTouchSettingsChange: touchSettings => game.updateOrbitTouches(touchSettings)
+});
+
+initAchievementsView({
+  onOpen: () => game.pause()
+});
 
-  // Convert mouse coordinates to normalized device coordinates
-  mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-  mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+initSoundSettings({
+  onOpen: () => game.pause()
+});
 
-  // Update raycaster
-  raycaster.setFromCamera(mouse, camera);
+initReplayControls({
+  getReplay: () => lastReplay,
+  onLoad: startReplay
+});
 
-  // Check for intersection with the plane
-  const intersects = raycaster.intersectObject(mesh);
+initLeaderboard();
 
-  if (intersects.length > 0) {
-    gameRestart();
-  }
+const replayParam = urlParams.get('replay');
+if (replayParam) {
+  loadReplayParam(replayParam).then(startReplay).catch(error => {
+    console.warn('Failed to load replay:', error);
+  });
 }
 
-renderer.domElement.addEventListener('click', onMouseClick);
+// First tick of the current run, for the run duration in the history
+let runStartTick = 0;
 
-/*
-  ==== COLLISION DETECTION ====
-*/
-const collisionSystem = new CollisionDetectionSystem(renderer, scene, {
-  planeWidth: PLANE_WIDTH,
-  planeHeight: PLANE_HEIGHT,
+// Replays and autopilot runs don't unlock achievements
+new AchievementTracker(announceAchievement, {
   trexXWorld: TREX_X_WORLD,
-  cameraZ: initialCameraZ,
-  cameraNear: CAMERA_NEAR,
-  cameraFar: CAMERA_FAR,
-  debugMode: DEBUG_MODE
-});
+  trexYWorld: TREX_Y_WORLD,
+  isTracked: () => !replayPlayer && !options.autopilotEnabled
+}).subscribe(game);
 
-/*
-  ==== ANIMATION LOOP ====
-*/
-const clock = new THREE.Clock()
-let distanceRan = 0; // Track total distance in world units
-let lastCollisionCheckTime = 0;
+game.on('gameStart', ({ tick }) => {
+  runStartTick = tick;
+});
 
-function animate() {
-  const delta = clock.getDelta();
+game.on('restart', () => {
+  if (DEBUG_MODE) console.log('Restarting game.');
+  if (!replayPlayer) startNextRun();
+  runStartTick = 0;
+  setReplayControlsVisible(false);
+  hideLeaderboard();
+});
 
-  // Update orbit controls (disabled during camera animation)
-  if (!cameraAnimation.isRunning) {
-    controls.update();
-  }
+game.on('crash', handleCrash);
 
-  // Only update game state if game is running (not waiting or crashed)
-  if (isGameRunning()) {
-    // Gradually increase game speed up to the maximum
-    if (options.gameSpeed < GAME_SPEED_MAX) {
-      options.gameSpeed += options.gameSpeedAcceleration * delta;
-    }
-
-    // Calculate distance traveled this frame and update score
-    const distanceDelta = options.gameSpeed * delta;
-    distanceRan += distanceDelta;
-    distanceRanRef.value = distanceRan;
-
-    // Update options and uniforms
-    options.distanceRan = distanceRan;
-    uniformDistanceRan.value = options.distanceRan;
-
-    // Convert distance to score using coefficient
-    const calculatedScore = Math.floor(distanceRan * options.scoreCoefficient);
-    options.score = calculatedScore;
-    uniformScore.value = options.score;
-
-    // Play achievement sound for score milestones
-    if (calculatedScore > 0 && calculatedScore % ACHIEVEMENT_DISTANCE === 0) {
-      playSound(SoundType.SCORE_REACHED);
-    }
-  }
+if (DEBUG_MODE) {
+  game.on('newHighScore', ({ score }) => console.log('NEW HIGH SCORE!', score));
+}
 
-  // Always update T-Rex controls (for jump handling even when waiting)
-  if (!isGameOver()) {
-    options.jumpOffsetY = controlsTRex(delta);
-    uniformJumpOffsetY.value = options.jumpOffsetY;
+function handleCrash({ obstacleType }: GameEvents['crash']) {
+  lastReplay = replayRecorder.toReplay(gameState.tick, gameState.score);
+  setReplayControlsVisible(true);
+
+  if (DEBUG_MODE) console.log('GAME OVER! Score:', gameState.score, 'High Score:', options.hiScore);
+
+  // Replays and autopilot runs stay out of the run history and score service
+  if (!replayPlayer && !options.autopilotEnabled) {
+    scoreService.submitScore({
+      playerName: getPlayerName(),
+      score: gameState.score,
+      mode: gameModeSettings.mode,
+      seed: gameModeSettings.seed,
+      dateKey: gameModeSettings.dateKey,
+      date: new Date().toISOString()
+    }).catch(error => console.warn('Failed to submit score:', error));
+
+    recordRun({
+      score: gameState.score,
+      distance: gameState.distanceRan,
+      duration: (gameState.tick - runStartTick) * SIMULATION_TICK_SECONDS,
+      // Speed only grows during a run, the crash happened at the maximum
+      maxSpeed: gameState.gameSpeed,
+      crashObstacleType: obstacleType,
+      date: new Date().toISOString(),
+      seed: gameModeSettings.seed,
+      mode: gameModeSettings.mode,
+      dateKey: gameModeSettings.dateKey
+    }).catch(error => console.warn('Failed to record run:', error));
   }
+}
 
-  // Detect collisions at specified interval (only when game is running)
-  if (isGameRunning() && clock.getElapsedTime() - lastCollisionCheckTime > COLLISION_DETECTION_INTERVAL) {
-    collisionSystem.detectCollision({collisionColor: options.collisionColor}).then(collision => {
-      if (!collision) return;
-
-      // Play collision sound
-      playSound(SoundType.HIT);
-
-      // Update high score
-      if (options.score > options.hiScore) {
-        options.hiScore = options.score;
-        uniformHiScore.value = options.hiScore;
-        setHighScore(options.hiScore);
-        console.log('NEW HIGH SCORE!', options.hiScore);
-      }
-
-      options.trexState = TREX_STATE.CRASHED;
-      uniformTRexState.value = TREX_STATE.CRASHED;
-      options.gameSpeed = 0;
-      console.log('GAME OVER! Score:', options.score, 'High Score:', options.hiScore);
-    }).catch(console.error);
-    lastCollisionCheckTime = clock.getElapsedTime();
+/*
+  ==== SIMULATION TICKS ====
+*/
+// Replays and the autopilot queue their inputs for the coming tick
+function beforeStep() {
+  if (replayPlayer) {
+    replayPlayer.inputsForTick(gameState.tick).forEach(input => game.queueInput(input));
+  } else if (options.autopilotEnabled) {
+    autopilot.update(gameState, game.simulation.obstacles);
   }
+}
 
-  gui?.updateDisplay()
+function afterStep() {
+  if (!replayPlayer) return;
 
-  renderer.render(scene, camera);
+  if (replayPlayer.shouldCrash(gameState.tick)) {
+    game.simulation.crash();
+    stopReplay();
+  } else if (replayPlayer.isExhausted && replayPlayer.replay.crashTick === null) {
+    // Run was exported while still going, hand control back to the player
+    stopReplay();
+  }
 }
-
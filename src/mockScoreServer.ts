@@ -0,0 +1,183 @@
+/**
+ * Mock score server
+ * Tiny leaderboard server implementing the REST API of RestScoreService, for local development.
+ * Scores are kept in memory, --file keeps them in a JSON file across restarts.
+ *
+ *   npm run score-server -- --port 8787 --file scores.json
+ *   open http://localhost:5173/?scoreServer=http://localhost:8787
+ *
+ * Runs with tsx, like the headless runner. Tests start it in-process with createScoreServer.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+
+export interface StoredScore {
+  playerName: string;
+  score: number;
+  mode: string;
+  seed: number;
+  dateKey: string | null;
+  date: string;
+}
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_TOP_LIMIT = 10;
+const MAX_TOP_LIMIT = 100;
+const MAX_BODY_SIZE = 4096;
+
+/**
+ * The request body went over MAX_BODY_SIZE, the rest of it is never read
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Body larger than ${MAX_BODY_SIZE} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+function parseScore(body: unknown): StoredScore | null {
+  const entry = body as Partial<StoredScore> | null;
+  if (!entry || typeof entry.score !== 'number' || !Number.isFinite(entry.score) || entry.score < 0) return null;
+  if (typeof entry.mode !== 'string' || typeof entry.playerName !== 'string') return null;
+
+  return {
+    playerName: entry.playerName.slice(0, 16),
+    score: Math.floor(entry.score),
+    mode: entry.mode,
+    seed: Number(entry.seed) >>> 0,
+    dateKey: typeof entry.dateKey === 'string' ? entry.dateKey : null,
+    date: typeof entry.date === 'string' ? entry.date : new Date().toISOString()
+  };
+}
+
+// Scores of a mode, daily challenges only of the given day
+function filterScores(scores: StoredScore[], params: URLSearchParams): StoredScore[] {
+  const mode = params.get('mode');
+  const dateKey = params.get('dateKey');
+  return scores.filter(entry => entry.mode === mode && (dateKey === null || entry.dateKey === dateKey));
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        // Stop buffering, the connection is closed with the 413 response
+        request.removeAllListeners('data');
+        request.pause();
+        reject(new BodyTooLargeError());
+      }
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, json: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(json));
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  scores: StoredScore[],
+  onChange: () => void
+) {
+  // The game is served from another origin (Vite)
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const route = `${request.method} ${url.pathname}`;
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+  } else if (route === 'POST /scores') {
+    let body: string;
+    try {
+      body = await readBody(request);
+    } catch (error) {
+      if (!(error instanceof BodyTooLargeError)) throw error;
+      response.setHeader('Connection', 'close');
+      sendJson(response, 413, { error: 'Body too large' });
+      return;
+    }
+
+    let entry: StoredScore | null = null;
+    try {
+      entry = parseScore(JSON.parse(body));
+    } catch {
+      entry = null;
+    }
+    if (!entry) {
+      sendJson(response, 400, { error: 'Invalid score' });
+      return;
+    }
+
+    scores.push(entry);
+    onChange();
+    console.log(`${entry.playerName}: ${entry.score} (${entry.mode}${entry.dateKey ? ' ' + entry.dateKey : ''})`);
+    sendJson(response, 201, entry);
+  } else if (route === 'GET /scores/top') {
+    const limit = Math.min(Number(url.searchParams.get('limit')) || DEFAULT_TOP_LIMIT, MAX_TOP_LIMIT);
+    const top = filterScores(scores, url.searchParams)
+      .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+      .slice(0, limit);
+    sendJson(response, 200, top);
+  } else if (route === 'GET /scores/best') {
+    const player = url.searchParams.get('player');
+    const best = filterScores(scores, url.searchParams)
+      .filter(entry => entry.playerName === player)
+      .reduce((max, entry) => Math.max(max, entry.score), 0);
+    sendJson(response, 200, { score: best });
+  } else {
+    sendJson(response, 404, { error: 'Not found' });
+  }
+}
+
+/**
+ * Server keeping its scores in the given array, onChange runs after every stored score
+ */
+export function createScoreServer(scores: StoredScore[] = [], onChange: () => void = () => {}): Server {
+  return createServer((request, response) => {
+    handleRequest(request, response, scores, onChange).catch(error => {
+      console.warn(error);
+      if (!response.headersSent) sendJson(response, 500, { error: 'Internal error' });
+    });
+  });
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      file: { type: 'string' }
+    }
+  });
+
+  const file = values.file;
+  const scores: StoredScore[] = file && existsSync(file)
+    ? JSON.parse(readFileSync(file, 'utf8'))
+    : [];
+  const persist = () => {
+    if (file) writeFileSync(file, JSON.stringify(scores, null, 2));
+  };
+
+  const port = Number(values.port);
+  createScoreServer(scores, persist).listen(port, () => {
+    console.log(`Score server listening on http://localhost:${port} (${scores.length} scores)`);
+  });
+}
+
+// Only when run directly, tests import createScoreServer
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -0,0 +1,58 @@
+/**
+ * Night cycle
+ * Shared definition of the score-based day/night cycle and its CPU evaluation. The shader (nightMode.ts) builds its
+ * TSL version from the same numbers, so game events, music and achievements follow exactly what is on screen.
+ * Free of three and the DOM, the headless runner uses it too.
+ */
+
+export const NIGHT_CYCLE = {
+  INTERVAL: 700,  // Score interval between nights, the first one starts at INTERVAL
+  WINDOW: 300,    // Score length of a night, fades included
+  TRANSITION: 10  // Score length of the fade in and the fade out
+} as const;
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Same as calculateNightMode: 0 by day, 1 at night, in between while the sky fades
+ */
+export function getNightProgress(score: number): number {
+  if (score < NIGHT_CYCLE.INTERVAL) return 0;
+
+  const cyclePosition = (score - NIGHT_CYCLE.INTERVAL) % NIGHT_CYCLE.INTERVAL;
+  const fadeOutStart = NIGHT_CYCLE.WINDOW - NIGHT_CYCLE.TRANSITION;
+  return smoothstep(0, NIGHT_CYCLE.TRANSITION, cyclePosition) * smoothstep(NIGHT_CYCLE.WINDOW, fadeOutStart, cyclePosition);
+}
+
+/**
+ * Nights started so far, 1 from the first night on
+ */
+export function getNightCount(score: number): number {
+  return Math.floor(score / NIGHT_CYCLE.INTERVAL);
+}
+
+/**
+ * Number of the night the score is in, 0 by day
+ */
+export function getCurrentNight(score: number): number {
+  const night = getNightCount(score);
+  if (night === 0) return 0;
+  return score - night * NIGHT_CYCLE.INTERVAL < NIGHT_CYCLE.WINDOW ? night : 0;
+}
+
+/**
+ * Score the next night starts at
+ */
+export function getNextNightScore(score: number): number {
+  return (getNightCount(score) + 1) * NIGHT_CYCLE.INTERVAL;
+}
+
+/**
+ * Score the given night (1 for the first) is over at
+ */
+export function getNightEndScore(night: number): number {
+  return night * NIGHT_CYCLE.INTERVAL + NIGHT_CYCLE.WINDOW;
+}
@@ -1,14 +1,15 @@
 /**
  * Night mode calculation
- * Handles score-based night mode triggering and transitions
+ * Handles score-based night mode triggering and transitions, getNightProgress in nightCycle.ts is the CPU version
  */
 
 import { float, floor, Fn, mod, select, smoothstep, vec2 } from 'three/tsl';
 import type { FnArguments } from './types.ts';
+import { NIGHT_CYCLE } from './nightCycle.ts';
 
-const INVERT_DISTANCE = float(700) // Score interval for toggling night mode
-const NIGHT_WINDOW = float(300) // Duration of night mode within each interval
-const TRANSITION_DURATION = float(10) // Duration of fade in/out transitions
+const INVERT_DISTANCE = float(NIGHT_CYCLE.INTERVAL) // Score interval for toggling night mode
+const NIGHT_WINDOW = float(NIGHT_CYCLE.WINDOW) // Duration of night mode within each interval
+const TRANSITION_DURATION = float(NIGHT_CYCLE.TRANSITION) // Duration of fade in/out transitions
 
 export const calculateNightMode = Fn(([score]: FnArguments) => {
 
@@ -0,0 +1,271 @@
+/**
+ * CPU-side obstacle course
+ * Spawns obstacles with the original game's rules (speed-dependent gaps, at most two
+ * of the same type in a row, score-gated cactus groups). The course is authoritative:
+ * collision tests use it directly and the shader draws the visible obstacles from a uniform array.
+ *
+ * Pterodactyls fly at their own speed offset relative to the ground, so their course X changes every tick.
+ *
+ * The course is selected by a 32-bit seed, every seed produces the same course for the same run.
+ */
+
+// Obstacle spawn configuration (shared with tslObstacle)
+export const OBSTACLE_CONFIG = {
+  // Spawning
+  FIRST_OBSTACLE_X: 4.0, // Course X of the first obstacle's left edge
+  SPAWN_X: 3.5,          // World X where obstacles spawn (just right of the visible plane)
+  DESPAWN_X: -3.5,       // World X behind which passed obstacles are removed
+  MAX_GROUP_SIZE: 3,     // Original MAX_OBSTACLE_LENGTH
+  MAX_DUPLICATION: 2,    // Original MAX_OBSTACLE_DUPLICATION
+
+  // Score gates (roughly matching original speed gates)
+  PTERODACTYL_MIN_SCORE: 450,    // Original: speed 8.5
+  SMALL_CACTUS_GROUP_SCORE: 100, // Original: speed 4.0
+  LARGE_CACTUS_GROUP_SCORE: 300, // Original: speed 7.0
+
+  // Heights (in world units)
+  CACTUS_SMALL_HEIGHT_OFFSET: -0.47,    // Small cacti positioned lower (35px tall)
+  CACTUS_LARGE_HEIGHT_OFFSET: -0.39,    // Large cacti ground level (50px tall)
+  PTERODACTYL_HEIGHT_OFFSETS: [0.05, -0.15, -0.46], // High, Mid, Low positions
+
+  // Gaps and spacing
+  CACTUS_BASE_GAP: 1.2,      // ~120px in original
+  PTERODACTYL_BASE_GAP: 1.5, // ~150px in original
+  GAP_COEFFICIENT: 0.6,      // Original gapCoefficient
+  GAP_COEFFICIENT_RANGE: 0.5, // 1.0x to 1.5x variation
+
+  // Animation
+  PTERODACTYL_WING_SPEED: 6.0, // Matching original 6fps
+  SPEED_OFFSET_RANGE: 0.8      // ±0.8 speed variation for pterodactyls (original pixels per frame)
+};
+
+export const OBSTACLE_TYPE = {
+  CACTUS_SMALL: 0,
+  CACTUS_LARGE: 1,
+  PTERODACTYL: 2
+} as const;
+export type ObstacleType = typeof OBSTACLE_TYPE[keyof typeof OBSTACLE_TYPE];
+
+const OBSTACLE_TYPES: readonly ObstacleType[] = Object.values(OBSTACLE_TYPE);
+
+// Sprite sizes in pixels (LDPI, matching the sprites sampled by the shader)
+export const OBSTACLE_SIZE: Record<ObstacleType, { width: number; height: number }> = {
+  [OBSTACLE_TYPE.CACTUS_SMALL]: { width: 17, height: 35 }, // Per cactus, groups are multiples
+  [OBSTACLE_TYPE.CACTUS_LARGE]: { width: 25, height: 50 },
+  [OBSTACLE_TYPE.PTERODACTYL]: { width: 46, height: 40 }
+};
+
+// Per-type spawn rules, the original minSpeed/multipleSpeed/minGap as score gates and world units
+const OBSTACLE_RULES: Record<ObstacleType, { minScore: number; groupScore: number; baseGap: number }> = {
+  [OBSTACLE_TYPE.CACTUS_SMALL]: {
+    minScore: 0,
+    groupScore: OBSTACLE_CONFIG.SMALL_CACTUS_GROUP_SCORE,
+    baseGap: OBSTACLE_CONFIG.CACTUS_BASE_GAP
+  },
+  [OBSTACLE_TYPE.CACTUS_LARGE]: {
+    minScore: 0,
+    groupScore: OBSTACLE_CONFIG.LARGE_CACTUS_GROUP_SCORE,
+    baseGap: OBSTACLE_CONFIG.CACTUS_BASE_GAP
+  },
+  [OBSTACLE_TYPE.PTERODACTYL]: {
+    minScore: OBSTACLE_CONFIG.PTERODACTYL_MIN_SCORE,
+    groupScore: Infinity, // Pterodactyls never come in groups
+    baseGap: OBSTACLE_CONFIG.PTERODACTYL_BASE_GAP
+  }
+};
+
+const PIXELS_PER_UNIT = 100;
+const ORIGINAL_FPS = 60;
+
+// Game speed (units/second) to the original's pixels per frame
+const ORIGINAL_SPEED_SCALE = PIXELS_PER_UNIT / ORIGINAL_FPS;
+
+// Pterodactyl speed offset in units/second
+const PTERODACTYL_SPEED_OFFSET = OBSTACLE_CONFIG.SPEED_OFFSET_RANGE / ORIGINAL_SPEED_SCALE;
+
+// Spreads seeds across the hash input space (golden ratio), also the step of the course random stream
+export const SEED_MULTIPLIER = 0x9e3779b9;
+
+// lowbias32 hash constants
+export const HASH_MULTIPLIER_1 = 0x7feb352d;
+export const HASH_MULTIPLIER_2 = 0x846ca68b;
+
+// 1 / 2^24, maps the top 24 bits of a hash to [0, 1) without rounding
+export const HASH_TO_UNIT = 1 / 16777216;
+
+// Course of games without a seed, the same for every run
+export const DEFAULT_COURSE_SEED = 0;
+
+export interface ObstacleInfo {
+  index: number;        // Spawn order within the run
+  type: ObstacleType;
+  size: number;         // Cactus group size (1-3), always 1 for pterodactyls
+  heightOffset: number; // Sprite center Y (world units)
+  x: number;            // Sprite center X in course coordinates (add -distanceRan for world X)
+  speedOffset: number;  // Extra speed towards the T-Rex (units/second), only pterodactyls have one
+  width: number;        // Sprite width (world units)
+  gap: number;          // Free space to the next obstacle (world units)
+}
+
+/**
+ * lowbias32 integer hash
+ */
+export function hashUint32(value: number): number {
+  let x = value >>> 0;
+  x = (x ^ (x >>> 16)) >>> 0;
+  x = Math.imul(x, HASH_MULTIPLIER_1) >>> 0;
+  x = (x ^ (x >>> 15)) >>> 0;
+  x = Math.imul(x, HASH_MULTIPLIER_2) >>> 0;
+  x = (x ^ (x >>> 16)) >>> 0;
+  return x;
+}
+
+export function getObstacleHeightOffset(type: ObstacleType, heightSlot: number): number {
+  switch (type) {
+    case OBSTACLE_TYPE.CACTUS_SMALL:
+      return OBSTACLE_CONFIG.CACTUS_SMALL_HEIGHT_OFFSET;
+    case OBSTACLE_TYPE.CACTUS_LARGE:
+      return OBSTACLE_CONFIG.CACTUS_LARGE_HEIGHT_OFFSET;
+    default:
+      return OBSTACLE_CONFIG.PTERODACTYL_HEIGHT_OFFSETS[heightSlot];
+  }
+}
+
+/**
+ * Minimum gap grows with the obstacle width and the game speed, the actual gap
+ * is picked between the minimum and GAP_COEFFICIENT_RANGE above it
+ */
+export function getObstacleGapRange(type: ObstacleType, width: number, gameSpeed: number): { min: number; max: number } {
+  const min = width * gameSpeed * ORIGINAL_SPEED_SCALE + OBSTACLE_RULES[type].baseGap * OBSTACLE_CONFIG.GAP_COEFFICIENT;
+  return { min, max: min * (1 + OBSTACLE_CONFIG.GAP_COEFFICIENT_RANGE) };
+}
+
+/**
+ * Most obstacles the course can hold at once (spawn edge to despawn edge): single small cacti with their minimum
+ * gaps at the slowest game speed. Gaps next to pterodactyls are wider than a pterodactyl can close while on screen.
+ */
+export function getMaxCourseObstacles(minGameSpeed: number): number {
+  const type = OBSTACLE_TYPE.CACTUS_SMALL;
+  const width = OBSTACLE_SIZE[type].width / PIXELS_PER_UNIT;
+  const spacing = width + getObstacleGapRange(type, width, minGameSpeed).min;
+  return Math.floor((OBSTACLE_CONFIG.SPAWN_X - OBSTACLE_CONFIG.DESPAWN_X + width) / spacing) + 1;
+}
+
+/**
+ * Obstacles of the current run, spawned ahead of the T-Rex as the distance grows
+ */
+export class ObstacleCourse {
+  readonly obstacles: ObstacleInfo[] = [];
+  private seed: number;
+  private randomState = 0;
+  private nextIndex = 0;
+  private nextX = OBSTACLE_CONFIG.FIRST_OBSTACLE_X; // Course X of the next obstacle's left edge
+  private history: ObstacleType[] = [];              // Most recent type first
+
+  constructor(seed = DEFAULT_COURSE_SEED) {
+    this.seed = seed;
+    this.reset();
+  }
+
+  /**
+   * Start a new course, keeping the current seed unless one is given
+   */
+  reset(seed = this.seed): void {
+    this.seed = seed;
+    this.randomState = hashUint32(seed);
+    this.nextIndex = 0;
+    this.nextX = OBSTACLE_CONFIG.FIRST_OBSTACLE_X;
+    this.history = [];
+    this.obstacles.length = 0;
+  }
+
+  /**
+   * Move obstacles with a speed offset, remove passed obstacles and spawn new ones up to the spawn edge
+   */
+  update(distanceRan: number, gameSpeed: number, score: number, deltaSeconds: number): void {
+    for (const obstacle of this.obstacles) {
+      obstacle.x -= obstacle.speedOffset * deltaSeconds;
+    }
+
+    // The gap to the next obstacle is measured from where the last one is now, like the original
+    const last = this.obstacles[this.obstacles.length - 1];
+    if (last && last.index === this.nextIndex - 1) {
+      this.nextX = last.x + last.width / 2 + last.gap;
+    }
+
+    while (this.obstacles.length > 0) {
+      const first = this.obstacles[0];
+      if (first.x + first.width / 2 - distanceRan >= OBSTACLE_CONFIG.DESPAWN_X) break;
+      this.obstacles.shift();
+    }
+
+    // Distance jumped ahead (debug GUI), continue from the spawn edge instead of filling the skipped course
+    if (this.nextX - distanceRan < OBSTACLE_CONFIG.DESPAWN_X) {
+      this.nextX = distanceRan + OBSTACLE_CONFIG.SPAWN_X;
+    }
+
+    while (this.nextX - distanceRan < OBSTACLE_CONFIG.SPAWN_X) {
+      this.spawn(gameSpeed, score);
+    }
+  }
+
+  private spawn(gameSpeed: number, score: number): void {
+    const type = this.pickType(score);
+    const rules = OBSTACLE_RULES[type];
+
+    let size = 1 + Math.floor(this.random() * OBSTACLE_CONFIG.MAX_GROUP_SIZE);
+    if (size > 1 && score < rules.groupScore) {
+      size = 1;
+    }
+
+    let heightSlot = 0;
+    let speedOffset = 0;
+    if (type === OBSTACLE_TYPE.PTERODACTYL) {
+      heightSlot = Math.floor(this.random() * OBSTACLE_CONFIG.PTERODACTYL_HEIGHT_OFFSETS.length);
+      speedOffset = this.random() > 0.5 ? PTERODACTYL_SPEED_OFFSET : -PTERODACTYL_SPEED_OFFSET;
+    }
+
+    const width = OBSTACLE_SIZE[type].width * size / PIXELS_PER_UNIT;
+    const gapRange = getObstacleGapRange(type, width, gameSpeed);
+    const gap = gapRange.min + this.random() * (gapRange.max - gapRange.min);
+
+    this.obstacles.push({
+      index: this.nextIndex++,
+      type,
+      size,
+      heightOffset: getObstacleHeightOffset(type, heightSlot),
+      x: this.nextX + width / 2,
+      speedOffset,
+      width,
+      gap
+    });
+    this.nextX += width + gap;
+
+    this.history.unshift(type);
+    this.history.length = Math.min(this.history.length, OBSTACLE_CONFIG.MAX_DUPLICATION);
+  }
+
+  /**
+   * Random type, rerolled while it isn't unlocked yet or would be a third duplicate in a row
+   */
+  private pickType(score: number): ObstacleType {
+    for (;;) {
+      const type = OBSTACLE_TYPES[Math.floor(this.random() * OBSTACLE_TYPES.length)];
+      if (score >= OBSTACLE_RULES[type].minScore && !this.isDuplicate(type)) {
+        return type;
+      }
+    }
+  }
+
+  private isDuplicate(type: ObstacleType): boolean {
+    return this.history.length >= OBSTACLE_CONFIG.MAX_DUPLICATION && this.history.every(previous => previous === type);
+  }
+
+  /**
+   * Next value in [0, 1) of the course random stream
+   */
+  private random(): number {
+    this.randomState = (this.randomState + SEED_MULTIPLIER) >>> 0;
+    return (hashUint32(this.randomState) >>> 8) * HASH_TO_UNIT;
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Run recording and replay
+ * Records every simulation input with its tick and plays runs back exactly
+ * Replays are stored as compact JSON: ticks are delta-encoded and inputs use short codes
+ */
+
+import { GameInput } from './gameSimulation.ts';
+import type { SimulationConfig, SimulationEvent } from './gameSimulation.ts';
+
+export const REPLAY_VERSION = 4;
+
+// Input codes used in the compact JSON format (index = code)
+const INPUT_CODES: readonly GameInput[] = [
+  GameInput.JUMP_PRESS,
+  GameInput.JUMP_RELEASE,
+  GameInput.DUCK_PRESS,
+  GameInput.DUCK_RELEASE,
+  GameInput.RESTART
+];
+
+export interface ReplayInput {
+  tick: number;
+  input: GameInput;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;               // Obstacle course seed, 0 is the built-in course
+  config: SimulationConfig;
+  inputs: ReplayInput[];
+  crashTick: number | null;   // Tick the run ended on, null if it was still running
+  score: number;
+}
+
+// Serialized form: inputs flattened to [deltaTick, code, deltaTick, code, ...]
+interface ReplayJson {
+  v: number;
+  seed: number;
+  config: SimulationConfig;
+  inputs: number[];
+  crashTick: number | null;
+  score: number;
+}
+
+/**
+ * Collects simulation inputs into a replay, restarting the recording with every new run
+ */
+export class ReplayRecorder {
+  private inputs: ReplayInput[] = [];
+  private seed: number;
+  private config: SimulationConfig;
+
+  constructor(seed: number, config: SimulationConfig) {
+    this.seed = seed;
+    this.config = config;
+  }
+
+  /**
+   * Feed every simulation event through here
+   */
+  handleEvent(event: SimulationEvent): void {
+    if (event.type === 'input') {
+      this.inputs.push({ tick: event.tick, input: event.input });
+    } else if (event.type === 'restart') {
+      // A restarted run replays from a fresh simulation by restarting it on the first tick
+      this.inputs = [{ tick: 0, input: GameInput.RESTART }];
+    }
+  }
+
+  /**
+   * Course seed of the run being recorded
+   */
+  setSeed(seed: number): void {
+    this.seed = seed;
+  }
+
+  /**
+   * Drop the recorded inputs, used when the simulation is reset from outside
+   */
+  reset(): void {
+    this.inputs = [];
+  }
+
+  /**
+   * Snapshot of the current run
+   */
+  toReplay(crashTick: number | null, score: number): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      // The recorder may be handed the game settings, only the simulation config belongs in the replay
+      config: {
+        gameSpeedAcceleration: this.config.gameSpeedAcceleration,
+        scoreCoefficient: this.config.scoreCoefficient,
+        jumpBufferTime: this.config.jumpBufferTime,
+        speedDropGraceTime: this.config.speedDropGraceTime,
+        coyoteTime: this.config.coyoteTime
+      },
+      inputs: [...this.inputs],
+      crashTick,
+      score
+    };
+  }
+}
+
+/**
+ * Feeds the recorded inputs back into a fresh simulation tick by tick
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  private nextInputIndex = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  /**
+   * Inputs recorded for the given tick (the simulation tick before stepping)
+   */
+  inputsForTick(tick: number): GameInput[] {
+    const inputs: GameInput[] = [];
+    const recorded = this.replay.inputs;
+
+    while (this.nextInputIndex < recorded.length && recorded[this.nextInputIndex].tick <= tick) {
+      inputs.push(recorded[this.nextInputIndex].input);
+      this.nextInputIndex++;
+    }
+
+    return inputs;
+  }
+
+  /**
+   * Whether the recorded run crashed on this tick (the simulation tick after stepping)
+   */
+  shouldCrash(tick: number): boolean {
+    return this.replay.crashTick !== null && tick >= this.replay.crashTick;
+  }
+
+  /**
+   * All recorded inputs have been fed back
+   */
+  get isExhausted(): boolean {
+    return this.nextInputIndex >= this.replay.inputs.length;
+  }
+}
+
+export function serializeReplay(replay: Replay): string {
+  const inputs: number[] = [];
+  let lastTick = 0;
+
+  for (const { tick, input } of replay.inputs) {
+    inputs.push(tick - lastTick, INPUT_CODES.indexOf(input));
+    lastTick = tick;
+  }
+
+  const json: ReplayJson = {
+    v: replay.version,
+    seed: replay.seed,
+    config: replay.config,
+    inputs,
+    crashTick: replay.crashTick,
+    score: replay.score
+  };
+  return JSON.stringify(json);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function parseConfig(config: unknown): SimulationConfig {
+  if (!isObject(config)) {
+    throw new Error('Malformed replay: missing config');
+  }
+  if (!isNonNegative(config.gameSpeedAcceleration)) {
+    throw new Error(`Malformed replay: invalid gameSpeedAcceleration ${config.gameSpeedAcceleration}`);
+  }
+  if (!isNonNegative(config.scoreCoefficient) || config.scoreCoefficient === 0) {
+    throw new Error(`Malformed replay: invalid scoreCoefficient ${config.scoreCoefficient}`);
+  }
+
+  // Input forgiveness windows (seconds), 0 when disabled
+  for (const key of ['jumpBufferTime', 'speedDropGraceTime', 'coyoteTime'] as const) {
+    if (!isNonNegative(config[key])) {
+      throw new Error(`Malformed replay: invalid ${key} ${config[key]}`);
+    }
+  }
+
+  return {
+    gameSpeedAcceleration: config.gameSpeedAcceleration,
+    scoreCoefficient: config.scoreCoefficient,
+    jumpBufferTime: config.jumpBufferTime as number,
+    speedDropGraceTime: config.speedDropGraceTime as number,
+    coyoteTime: config.coyoteTime as number
+  };
+}
+
+/**
+ * Parse and validate a serialized replay, anything that could derail the simulation is rejected
+ */
+export function parseReplay(text: string): Replay {
+  const json: unknown = JSON.parse(text);
+
+  if (!isObject(json)) {
+    throw new Error('Malformed replay: not an object');
+  }
+  if (json.v !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${json.v}`);
+  }
+  if (!isCount(json.seed) || json.seed > 0xffffffff) {
+    throw new Error(`Malformed replay: invalid seed ${json.seed}`);
+  }
+  if (!Array.isArray(json.inputs) || json.inputs.length % 2 !== 0) {
+    throw new Error('Malformed replay: inputs must be [deltaTick, code] pairs');
+  }
+
+  const inputs: ReplayInput[] = [];
+  let tick = 0;
+  for (let i = 0; i < json.inputs.length; i += 2) {
+    // Deltas are never negative, so the ticks come out sorted
+    const delta: unknown = json.inputs[i];
+    if (!isCount(delta)) {
+      throw new Error(`Malformed replay: invalid tick delta ${delta}`);
+    }
+    const code: unknown = json.inputs[i + 1];
+    const input = isCount(code) ? INPUT_CODES[code] : undefined;
+    if (input === undefined) {
+      throw new Error(`Unknown replay input code: ${code}`);
+    }
+    tick += delta;
+    inputs.push({ tick, input });
+  }
+
+  // A run can't crash before its last input
+  const crashTick = json.crashTick ?? null;
+  if (crashTick !== null && (!isCount(crashTick) || crashTick < tick)) {
+    throw new Error(`Malformed replay: invalid crashTick ${crashTick}`);
+  }
+  if (!isCount(json.score)) {
+    throw new Error(`Malformed replay: invalid score ${json.score}`);
+  }
+
+  return {
+    version: json.v,
+    seed: json.seed,
+    config: parseConfig(json.config),
+    inputs,
+    crashTick,
+    score: json.score
+  };
+}
+
+/**
+ * Encode a replay for the ?replay= URL parameter (base64url JSON)
+ */
+export function encodeReplayParam(replay: Replay): string {
+  const bytes = new TextEncoder().encode(serializeReplay(replay));
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Load a replay from the ?replay= URL parameter
+ * Accepts either a base64url encoded replay or a same-origin URL/path to a replay JSON file
+ */
+export async function loadReplayParam(value: string): Promise<Replay> {
+  if (/^(https?:|\/|\.)/.test(value)) {
+    // A shared link must not make the page fetch from other hosts
+    const url = new URL(value, window.location.href);
+    if (url.origin !== window.location.origin) {
+      throw new Error(`Replays can only be loaded from this site: ${url.origin}`);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch replay: ${response.status}`);
+    }
+    return parseReplay(await response.text());
+  }
+
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return parseReplay(new TextDecoder().decode(bytes));
+}
+
+export function downloadReplay(replay: Replay): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tsl-dino-replay-${replay.score}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function readReplayFile(file: File): Promise<Replay> {
+  return parseReplay(await file.text());
+}
+
+interface ReplayControlsCallbacks {
+  getReplay: () => Replay | null;
+  onLoad: (replay: Replay) => void;
+}
+
+/**
+ * Wire up the save/share/load buttons shown after game over
+ */
+export function initReplayControls(callbacks: ReplayControlsCallbacks) {
+  const saveButton = document.getElementById('replay-save-button') as HTMLButtonElement;
+  const shareButton = document.getElementById('replay-share-button') as HTMLButtonElement;
+  const loadButton = document.getElementById('replay-load-button') as HTMLButtonElement;
+  const fileInput = document.getElementById('replay-file-input') as HTMLInputElement;
+
+  if (!saveButton || !shareButton || !loadButton || !fileInput) return;
+
+  saveButton.addEventListener('click', () => {
+    const replay = callbacks.getReplay();
+    if (replay) downloadReplay(replay);
+  });
+
+  shareButton.addEventListener('click', () => {
+    const replay = callbacks.getReplay();
+    if (!replay) return;
+
+    const url = new URL(window.location.href);
+    url.searchParams.set('replay', encodeReplayParam(replay));
+    navigator.clipboard.writeText(url.toString())
+      .then(() => console.log('Replay link copied to clipboard'))
+      .catch(console.warn);
+  });
+
+  loadButton.addEventListener('click', () => fileInput.click());
+
+  fileInput.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+
+    readReplayFile(file).then(callbacks.onLoad).catch(error => {
+      console.warn('Failed to load replay:', error);
+    });
+  });
+}
+
+export function setReplayControlsVisible(visible: boolean) {
+  const replayControls = document.getElementById('replay-controls');
+  if (replayControls) {
+    replayControls.style.display = visible ? 'flex' : 'none';
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Run history
+ * Keeps every finished run in IndexedDB and builds the top-10 leaderboard per game mode
+ * Histories can be exported as JSON and merged into another browser's history
+ */
+
+import { GameMode } from './gameSeed.ts';
+
+export interface RunRecord {
+  id?: number;                      // IndexedDB key, assigned when stored
+  playerName: string;
+  score: number;
+  distance: number;                 // World units
+  duration: number;                 // Seconds of running
+  maxSpeed: number;
+  crashObstacleType: number | null; // OBSTACLE_TYPE of the obstacle hit, null if unknown
+  date: string;                     // ISO timestamp of the crash
+  seed: number;
+  mode: GameMode;
+  dateKey: string | null;           // Day of a daily challenge run
+}
+
+export const LEADERBOARD_SIZE = 10;
+
+const HISTORY_EXPORT_VERSION = 1;
+
+const DB_NAME = 'tsl-dino-game';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+const PLAYER_NAME_KEY = 'tsl-dino-game-player-name';
+const DEFAULT_PLAYER_NAME = 'Player';
+const MAX_PLAYER_NAME_LENGTH = 16;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('mode', 'mode');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+/**
+ * Wrap a request of a fresh transaction into a promise
+ */
+async function runRequest<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = createRequest(db.transaction(RUNS_STORE, mode).objectStore(RUNS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function addRun(run: RunRecord): Promise<number> {
+  const { id: _id, ...record } = run;
+  return Number(await runRequest('readwrite', store => store.add(record)));
+}
+
+export async function updateRun(run: RunRecord): Promise<void> {
+  await runRequest('readwrite', store => store.put(run));
+}
+
+export async function getRuns(mode?: GameMode): Promise<RunRecord[]> {
+  return runRequest('readonly', store => mode ? store.index('mode').getAll(mode) : store.getAll());
+}
+
+/**
+ * Best runs of a mode, daily challenges only count runs of the given day
+ */
+export async function getLeaderboard(mode: GameMode, dateKey: string | null = null): Promise<RunRecord[]> {
+  const runs = await getRuns(mode);
+  return runs
+    .filter(run => mode !== GameMode.DAILY || dateKey === null || run.dateKey === dateKey)
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+    .slice(0, LEADERBOARD_SIZE);
+}
+
+export async function clearRunHistory(): Promise<void> {
+  await runRequest('readwrite', store => store.clear());
+}
+
+export async function exportRunHistory(): Promise<string> {
+  const runs = await getRuns();
+  return JSON.stringify({
+    version: HISTORY_EXPORT_VERSION,
+    runs: runs.map(({ id: _id, ...run }) => run)
+  });
+}
+
+/**
+ * Merge an exported history, runs already in the history are skipped
+ * Returns the number of added runs
+ */
+export async function importRunHistory(text: string): Promise<number> {
+  const json = JSON.parse(text);
+  if (json?.version !== HISTORY_EXPORT_VERSION || !Array.isArray(json.runs)) {
+    throw new Error('Unsupported run history file');
+  }
+
+  const known = new Set((await getRuns()).map(runKey));
+  let added = 0;
+
+  for (const entry of json.runs) {
+    const run = parseRunRecord(entry);
+    if (!run || known.has(runKey(run))) continue;
+
+    known.add(runKey(run));
+    await addRun(run);
+    added++;
+  }
+
+  return added;
+}
+
+// Identifies the same run across exports
+function runKey(run: RunRecord): string {
+  return `${run.date}|${run.seed}|${run.score}|${run.playerName}`;
+}
+
+function parseRunRecord(entry: unknown): RunRecord | null {
+  const run = entry as Partial<RunRecord> | null;
+  if (!run || typeof run.score !== 'number' || typeof run.date !== 'string' || typeof run.seed !== 'number') {
+    return null;
+  }
+  if (!Object.values(GameMode).includes(run.mode as GameMode)) return null;
+
+  return {
+    playerName: sanitizePlayerName(String(run.playerName ?? '')),
+    score: run.score,
+    distance: Number(run.distance) || 0,
+    duration: Number(run.duration) || 0,
+    maxSpeed: Number(run.maxSpeed) || 0,
+    crashObstacleType: typeof run.crashObstacleType === 'number' ? run.crashObstacleType : null,
+    date: run.date,
+    seed: run.seed >>> 0,
+    mode: run.mode as GameMode,
+    dateKey: typeof run.dateKey === 'string' ? run.dateKey : null
+  };
+}
+
+export function sanitizePlayerName(name: string): string {
+  return name.trim().slice(0, MAX_PLAYER_NAME_LENGTH) || DEFAULT_PLAYER_NAME;
+}
+
+export function getPlayerName(): string {
+  return sanitizePlayerName(localStorage.getItem(PLAYER_NAME_KEY) ?? '');
+}
+
+export function setPlayerName(name: string): void {
+  localStorage.setItem(PLAYER_NAME_KEY, sanitizePlayerName(name));
+}
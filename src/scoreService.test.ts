@@ -0,0 +1,120 @@
+/**
+ * REST score service against the mock score server: retries, the offline queue and rejected requests
+ */
+
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, beforeEach, describe, mock, test } from 'node:test';
+import { createScoreServer } from './mockScoreServer.ts';
+import type { StoredScore } from './mockScoreServer.ts';
+import { GameMode } from './gameSeed.ts';
+import { REST_SCORE_CONFIG, RestScoreService, ScoreRejectedError } from './scoreService.ts';
+import type { ScoreSubmission } from './scoreService.ts';
+
+// The browser globals the service uses
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+const storage = new MemoryStorage();
+Object.assign(globalThis, { window: new EventTarget(), localStorage: storage });
+Object.defineProperty(globalThis, 'navigator', { value: { onLine: true }, configurable: true });
+
+const SCORE_QUEUE_KEY = 'tsl-dino-game-score-queue';
+REST_SCORE_CONFIG.RETRY_DELAY = 50;
+// Failed requests are expected here
+mock.method(console, 'warn', () => {});
+
+const scores: StoredScore[] = [];
+const server = createScoreServer(scores);
+
+function listen(port = 0): Promise<number> {
+  return new Promise(resolve => {
+    server.listen(port, () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function close(): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+// A port nothing listens on, the server is started on it later
+async function reservePort(): Promise<number> {
+  const port = await listen();
+  await close();
+  return port;
+}
+
+function createSubmission(score: number): ScoreSubmission {
+  return { playerName: 'test', score, mode: GameMode.NORMAL, seed: 0, dateKey: null, date: new Date().toISOString() };
+}
+
+function readQueue(): ScoreSubmission[] {
+  return JSON.parse(storage.getItem(SCORE_QUEUE_KEY) ?? '[]');
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; !condition(); attempt++) {
+    assert.ok(attempt < 100, 'timed out');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('RestScoreService', () => {
+  beforeEach(async () => {
+    if (server.listening) await close();
+    scores.length = 0;
+    storage.clear();
+  });
+
+  after(async () => {
+    if (server.listening) await close();
+  });
+
+  test('retries a failed submission until the server answers', async () => {
+    const port = await reservePort();
+    const service = new RestScoreService(`http://localhost:${port}`);
+
+    // The first attempt fails, the retry after RETRY_DELAY reaches the server
+    const submitted = service.submitScore(createSubmission(120));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await listen(port);
+    await submitted;
+
+    assert.deepEqual(scores.map(entry => entry.score), [120]);
+    assert.deepEqual(readQueue(), []);
+  });
+
+  test('queues submissions while the server is down and sends them once back online', async () => {
+    const port = await reservePort();
+    const service = new RestScoreService(`http://localhost:${port}`);
+
+    await service.submitScore(createSubmission(80));
+    assert.deepEqual(readQueue().map(entry => entry.score), [80]);
+    assert.equal(service.getLocalHighScore({ mode: GameMode.NORMAL, seed: 0, dateKey: null }), 80);
+
+    await listen(port);
+    window.dispatchEvent(new Event('online'));
+    await waitFor(() => readQueue().length === 0);
+
+    assert.deepEqual(scores.map(entry => entry.score), [80]);
+  });
+
+  test('rejected requests throw ScoreRejectedError and are not queued', async () => {
+    const port = await listen();
+    const service = new RestScoreService(`http://localhost:${port}`);
+
+    // The mock server refuses negative scores with 400
+    await service.submitScore(createSubmission(-1));
+    assert.deepEqual(readQueue(), []);
+    assert.deepEqual(scores, []);
+
+    await assert.rejects(
+      new RestScoreService(`http://localhost:${port}/missing`).getTopScores(GameMode.NORMAL, 10),
+      (error: unknown) => error instanceof ScoreRejectedError && error.status === 404
+    );
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Score service
+ * Pluggable backend for high scores and leaderboards: the local one keeps everything in the browser,
+ * the REST one talks to a leaderboard server (see mockScoreServer.ts) and queues submissions while offline.
+ * ?scoreServer=<url> selects the REST backend.
+ */
+
+import { GameMode } from './gameSeed.ts';
+import type { GameModeSettings } from './gameSeed.ts';
+import { clearHighScore, getHighScore, setHighScore } from './highScore.ts';
+import { getLeaderboard } from './runHistory.ts';
+
+export interface ScoreSubmission {
+  playerName: string;
+  score: number;
+  mode: GameMode;
+  seed: number;
+  dateKey: string | null;
+  date: string; // ISO timestamp
+}
+
+export interface ScoreService {
+  /** Personal best of the mode (of the day for daily challenges) */
+  getHighScore(settings: GameModeSettings, playerName: string): Promise<number>;
+  /** Best score saved in this browser, available right away */
+  getLocalHighScore(settings: GameModeSettings): number;
+  clearLocalHighScore(settings: GameModeSettings): void;
+  /** Also the only place the local high score is saved */
+  submitScore(submission: ScoreSubmission): Promise<void>;
+  getTopScores(mode: GameMode, limit: number, dateKey?: string | null): Promise<ScoreSubmission[]>;
+}
+
+export const REST_SCORE_CONFIG = {
+  MAX_ATTEMPTS: 3,
+  RETRY_DELAY: 500,   // Milliseconds before the first retry, doubled for every further one
+  TIMEOUT: 5000,      // Milliseconds per request
+  MAX_QUEUED: 100     // Oldest queued submissions are dropped beyond this
+};
+
+const SCORE_QUEUE_KEY = 'tsl-dino-game-score-queue';
+
+/**
+ * The server refused a request (4xx), sending it again won't help so it isn't queued
+ */
+export class ScoreRejectedError extends Error {
+  readonly status: number;
+
+  constructor(status: number) {
+    super(`Score server rejected the request (${status})`);
+    this.name = 'ScoreRejectedError';
+    this.status = status;
+  }
+}
+
+/**
+ * Keeps the best scores in localStorage, the REST backend builds on it as its offline fallback
+ */
+export class LocalScoreService implements ScoreService {
+  async getHighScore(settings: GameModeSettings, _playerName: string): Promise<number> {
+    return this.getLocalHighScore(settings);
+  }
+
+  getLocalHighScore(settings: GameModeSettings): number {
+    return getHighScore(settings);
+  }
+
+  clearLocalHighScore(settings: GameModeSettings): void {
+    clearHighScore(settings);
+  }
+
+  async submitScore(submission: ScoreSubmission): Promise<void> {
+    if (submission.score > getHighScore(submission)) {
+      setHighScore(submission, submission.score);
+    }
+  }
+
+  async getTopScores(mode: GameMode, limit: number, dateKey: string | null = null): Promise<ScoreSubmission[]> {
+    const runs = await getLeaderboard(mode, dateKey);
+    return runs.slice(0, limit).map(run => ({
+      playerName: run.playerName,
+      score: run.score,
+      mode: run.mode,
+      seed: run.seed,
+      dateKey: run.dateKey,
+      date: run.date
+    }));
+  }
+}
+
+/**
+ * Leaderboard server backend
+ *   POST /scores                                   submit a score
+ *   GET  /scores/top?mode=&limit=&dateKey=         best scores
+ *   GET  /scores/best?player=&mode=&dateKey=       personal best, { score }
+ * Scores are also kept locally, submissions that fail are queued in localStorage and sent once back online.
+ */
+export class RestScoreService extends LocalScoreService {
+  private baseUrl: string;
+  private flushing = false;
+
+  constructor(baseUrl: string) {
+    super();
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    window.addEventListener('online', () => this.flushQueue());
+    this.flushQueue();
+  }
+
+  async getHighScore(settings: GameModeSettings, playerName: string): Promise<number> {
+    const local = this.getLocalHighScore(settings);
+    const params = new URLSearchParams({ player: playerName, mode: settings.mode });
+    if (settings.dateKey) params.set('dateKey', settings.dateKey);
+
+    try {
+      const { score } = await this.request<{ score: number }>(`/scores/best?${params}`);
+      return Math.max(local, score);
+    } catch (error) {
+      console.warn('Score server unavailable, using the local high score:', error);
+      return local;
+    }
+  }
+
+  async submitScore(submission: ScoreSubmission): Promise<void> {
+    await super.submitScore(submission);
+
+    try {
+      await this.send(submission);
+      this.flushQueue();
+    } catch (error) {
+      if (error instanceof ScoreRejectedError) {
+        console.warn('Score submission rejected:', error);
+        return;
+      }
+      // Network errors, timeouts and server errors
+      console.warn('Score submission failed, queued for later:', error);
+      this.enqueue(submission);
+    }
+  }
+
+  async getTopScores(mode: GameMode, limit: number, dateKey: string | null = null): Promise<ScoreSubmission[]> {
+    const params = new URLSearchParams({ mode, limit: String(limit) });
+    if (dateKey) params.set('dateKey', dateKey);
+    return this.request<ScoreSubmission[]>(`/scores/top?${params}`);
+  }
+
+  private send(submission: ScoreSubmission): Promise<unknown> {
+    return this.request('/scores', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission)
+    });
+  }
+
+  /**
+   * Fetch with a timeout, retrying network errors and server errors with exponential backoff
+   */
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < REST_SCORE_CONFIG.MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, REST_SCORE_CONFIG.RETRY_DELAY * 2 ** (attempt - 1)));
+      }
+      if (!navigator.onLine) throw new Error('Offline');
+
+      try {
+        const response = await fetch(this.baseUrl + path, { ...init, signal: AbortSignal.timeout(REST_SCORE_CONFIG.TIMEOUT) });
+        if (response.ok) return await response.json() as T;
+
+        // Client errors won't get better by retrying
+        if (response.status < 500) throw new ScoreRejectedError(response.status);
+        lastError = new Error(`Score server responded ${response.status}`);
+      } catch (error) {
+        if (error instanceof ScoreRejectedError) throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private readQueue(): ScoreSubmission[] {
+    try {
+      const queue = JSON.parse(localStorage.getItem(SCORE_QUEUE_KEY) ?? '[]');
+      return Array.isArray(queue) ? queue : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeQueue(queue: ScoreSubmission[]): void {
+    if (queue.length === 0) {
+      localStorage.removeItem(SCORE_QUEUE_KEY);
+    } else {
+      localStorage.setItem(SCORE_QUEUE_KEY, JSON.stringify(queue.slice(-REST_SCORE_CONFIG.MAX_QUEUED)));
+    }
+  }
+
+  private enqueue(submission: ScoreSubmission): void {
+    this.writeQueue([...this.readQueue(), submission]);
+  }
+
+  // Removes the submission wherever it is now, the queue may have been trimmed while it was being sent
+  private dequeue(submission: ScoreSubmission): void {
+    this.writeQueue(this.readQueue().filter(queued => !isSameSubmission(queued, submission)));
+  }
+
+  /**
+   * Send queued submissions in order, dropping rejected ones and stopping at the first one that still fails
+   */
+  private async flushQueue(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      let queue = this.readQueue();
+      while (queue.length > 0) {
+        const submission = queue[0];
+        try {
+          await this.send(submission);
+        } catch (error) {
+          if (!(error instanceof ScoreRejectedError)) throw error;
+          console.warn('Queued score rejected, dropping it:', error);
+        }
+        // Re-read, submissions may have been queued meanwhile
+        this.dequeue(submission);
+        queue = this.readQueue();
+      }
+    } catch (error) {
+      console.warn('Queued scores not sent yet:', error);
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
+
+function isSameSubmission(a: ScoreSubmission, b: ScoreSubmission): boolean {
+  return a.date === b.date && a.score === b.score && a.playerName === b.playerName;
+}
+
+export function createScoreService(urlParams: URLSearchParams): ScoreService {
+  const serverUrl = urlParams.get('scoreServer');
+  if (serverUrl) {
+    console.log(`Using score server ${serverUrl}`);
+    return new RestScoreService(serverUrl);
+  }
+  return new LocalScoreService();
+}
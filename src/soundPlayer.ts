@@ -1,8 +1,20 @@
 /**
  * Simple sound player
  * Loads sounds immediately and plays them when ready
+ * Everything plays through a mixer: sound effects and music have their own gain, both go through the master gain
+ * Browsers (iOS in particular) keep audio locked until a user gesture, the first tap or key press unlocks it.
+ * Where Web Audio isn't available or fails, sound effects fall back to pooled HTMLAudioElements.
  */
 
+import type { GameEventBus } from './gameEvents.ts';
+import { isIOS } from './deviceFeatures.ts';
+import { GAME_SPEED_MAX, GAME_SPEED_START } from './gameSimulation.ts';
+import { OBSTACLE_TYPE } from './obstacleLayout.ts';
+import { getSoundSettings, SoundEffectStyle, setSoundSettings } from './soundSettings.ts';
+import type { SoundSettings } from './soundSettings.ts';
+import { SYNTH_VOICES, SynthSound } from './soundSynth.ts';
+import type { SynthParams, SynthVoice } from './soundSynth.ts';
+
 export const SoundType = {
   BUTTON_PRESS: 'button-press',
   HIT: 'hit',
@@ -10,35 +22,230 @@ export const SoundType = {
 } as const;
 export type SoundType = typeof SoundType[keyof typeof SoundType];
 
+// Resolved against this module, so embedded games find them wherever the host page is
+const SOUND_URLS: Record<SoundType, string> = {
+  [SoundType.BUTTON_PRESS]: new URL('./assets/sounds/button-press.mp3', import.meta.url).href,
+  [SoundType.HIT]: new URL('./assets/sounds/hit.mp3', import.meta.url).href,
+  [SoundType.SCORE_REACHED]: new URL('./assets/sounds/score-reached.mp3', import.meta.url).href
+};
+
+// Samples (SoundType), built-in synthesized sounds (SynthSound) or names registered with registerSynthSound
+export type SoundName = SoundType | SynthSound | (string & {});
+
+// Synthesized sounds, with the sample that stands in for them where only HTMLAudio plays
+interface RegisteredSynth {
+  voice: SynthVoice;
+  fallback?: SoundType;
+}
+const synthSounds = new Map<SoundName, RegisteredSynth>();
+
+const SPEED_PITCH_RANGE = 0.5; // Pitch added at full speed
+
 // Sound storage
 const sounds = new Map<SoundType, AudioBuffer>();
 let audioContext: AudioContext | null = null;
 
-// Detect iOS (where Web Audio has limitations)
-const isIOS = /iPad|iPhone|iPod/.test(navigator.platform);
+// Mixer: sfx -> master -> destination, music -> master
+let masterGain: GainNode | null = null;
+let sfxGain: GainNode | null = null;
+let musicGain: GainNode | null = null;
+const GAIN_SMOOTHING = 0.015; // Seconds, avoids clicks when volumes change
 
-// Initialize audio context and load sounds immediately
-if (!isIOS) {
-  try {
-    audioContext = new AudioContext();
-    loadSounds().then();
-  } catch (error) {
-    console.warn('Web Audio API not supported:', error);
+let soundSettings: SoundSettings = getSoundSettings();
+const settingsListeners = new Set<(settings: SoundSettings) => void>();
+
+// HTMLAudio fallback, a few elements per sound so quick repeats can overlap
+const HTML_AUDIO_POOL_SIZE = 3;
+const htmlAudioPools = new Map<SoundType, HTMLAudioElement[]>();
+let useHtmlAudio = false;
+
+// Events that count as user activation for the audio unlock (iOS wants touchend). A touch pointerdown doesn't,
+// resuming there leaves the context locked
+const UNLOCK_EVENTS = ['touchend', 'pointerup', 'keydown', 'click'] as const;
+let audioUnlocked = false; // Set once the context actually runs (or HTMLAudio is primed)
+
+// Initialize audio context and load sounds immediately, it starts suspended until the first gesture
+try {
+  audioContext = new AudioContext();
+  createMixer(audioContext);
+  loadSounds().then();
+} catch (error) {
+  console.warn('Web Audio API not supported, using HTMLAudio:', error);
+  audioContext = null;
+  useHtmlAudio = true;
+}
+
+armAudioUnlock();
+
+registerSynthSound(SynthSound.JUMP, SYNTH_VOICES[SynthSound.JUMP], SoundType.BUTTON_PRESS);
+registerSynthSound(SynthSound.MILESTONE, SYNTH_VOICES[SynthSound.MILESTONE], SoundType.SCORE_REACHED);
+registerSynthSound(SynthSound.HIT_CACTUS, SYNTH_VOICES[SynthSound.HIT_CACTUS], SoundType.HIT);
+registerSynthSound(SynthSound.HIT_PTERODACTYL, SYNTH_VOICES[SynthSound.HIT_PTERODACTYL], SoundType.HIT);
+registerSynthSound(SynthSound.NIGHT_CHIME, SYNTH_VOICES[SynthSound.NIGHT_CHIME]);
+
+/**
+ * Make a synthesized sound playable with playSound, fallback plays where Web Audio isn't available
+ */
+export function registerSynthSound(name: string, voice: SynthVoice, fallback?: SoundType): void {
+  synthSounds.set(name, { voice, fallback });
+}
+
+function armAudioUnlock() {
+  for (const type of UNLOCK_EVENTS) {
+    document.addEventListener(type, unlockAudio, { capture: true, passive: true });
   }
 }
 
-async function loadSounds() {
+function finishAudioUnlock() {
+  audioUnlocked = true;
+  for (const type of UNLOCK_EVENTS) {
+    document.removeEventListener(type, unlockAudio, { capture: true });
+  }
+}
+
+/**
+ * Resume the audio context inside a user gesture, iOS also needs something played right then
+ * The listeners stay until the context runs, a gesture that didn't unlock it leaves the next one to try again
+ */
+function unlockAudio() {
+  if (audioUnlocked) return;
+
+  if (useHtmlAudio) {
+    primeHtmlAudio();
+    finishAudioUnlock();
+    return;
+  }
   if (!audioContext) return;
 
-  const soundUrls = {
-    [SoundType.BUTTON_PRESS]: '/sounds/button-press.mp3',
-    [SoundType.HIT]: '/sounds/hit.mp3',
-    [SoundType.SCORE_REACHED]: '/sounds/score-reached.mp3'
-  };
+  // On iOS resuming alone isn't enough, a silent one-sample buffer has to start within the gesture
+  if (isIOS()) {
+    try {
+      const silence = audioContext.createBufferSource();
+      silence.buffer = audioContext.createBuffer(1, 1, audioContext.sampleRate);
+      silence.connect(audioContext.destination);
+      silence.start(0);
+    } catch (error) {
+      console.warn('Failed to unlock Web Audio:', error);
+    }
+  }
+
+  // Priming HTMLAudio needs a gesture too, the next one unlocks the fallback
+  audioContext.resume()
+    .then(() => {
+      if (audioContext?.state === 'running') finishAudioUnlock();
+    })
+    .catch(error => {
+      console.warn('Web Audio stays locked, using HTMLAudio:', error);
+      useHtmlAudio = true;
+    });
+}
+
+function getHtmlAudioPool(type: SoundType): HTMLAudioElement[] {
+  let pool = htmlAudioPools.get(type);
+  if (!pool) {
+    pool = Array.from({ length: HTML_AUDIO_POOL_SIZE }, () => {
+      const element = new Audio(SOUND_URLS[type]);
+      element.preload = 'auto';
+      return element;
+    });
+    htmlAudioPools.set(type, pool);
+  }
+  return pool;
+}
+
+/**
+ * iOS only lets an HTMLAudioElement play from script after it was played in a gesture, play them all muted once
+ */
+function primeHtmlAudio() {
+  for (const type of Object.values(SoundType)) {
+    for (const element of getHtmlAudioPool(type)) {
+      element.muted = true;
+      element.play()
+        .then(() => {
+          element.pause();
+          element.currentTime = 0;
+        })
+        .catch(() => {})
+        .finally(() => {
+          element.muted = false;
+        });
+    }
+  }
+}
+
+function playHtmlAudio(type: SoundType) {
+  const pool = getHtmlAudioPool(type);
+  // A free element, or the one that started first
+  const element = pool.find(candidate => candidate.paused || candidate.ended) ?? pool[0];
+  pool.push(pool.splice(pool.indexOf(element), 1)[0]);
+
+  // iOS ignores the volume of HTMLAudioElements, mute still works
+  element.volume = soundSettings.masterVolume * soundSettings.sfxVolume;
+  element.currentTime = 0;
+  element.play().catch(error => console.warn(`Failed to play sound ${type}:`, error));
+}
+
+function createMixer(context: AudioContext) {
+  masterGain = context.createGain();
+  sfxGain = context.createGain();
+  musicGain = context.createGain();
+  sfxGain.connect(masterGain);
+  musicGain.connect(masterGain);
+  masterGain.connect(context.destination);
+  applyMixerGains();
+}
+
+function applyMixerGains() {
+  if (!audioContext || !masterGain || !sfxGain || !musicGain) return;
+
+  const time = audioContext.currentTime;
+  masterGain.gain.setTargetAtTime(soundSettings.muted ? 0 : soundSettings.masterVolume, time, GAIN_SMOOTHING);
+  sfxGain.gain.setTargetAtTime(soundSettings.sfxVolume, time, GAIN_SMOOTHING);
+  musicGain.gain.setTargetAtTime(soundSettings.musicVolume, time, GAIN_SMOOTHING);
+}
+
+export function getActiveSoundSettings(): SoundSettings {
+  return { ...soundSettings };
+}
+
+/**
+ * Apply new volumes or mute to everything playing and persist them
+ */
+export function setActiveSoundSettings(settings: SoundSettings): void {
+  soundSettings = { ...settings };
+  applyMixerGains();
+  setSoundSettings(soundSettings);
+  for (const listener of settingsListeners) {
+    listener(getActiveSoundSettings());
+  }
+}
+
+export function toggleMute(): void {
+  setActiveSoundSettings({ ...soundSettings, muted: !soundSettings.muted });
+  console.log(soundSettings.muted ? 'Sound muted.' : 'Sound on.');
+}
+
+/**
+ * Get told about changed sound settings (e.g. muted with the keyboard), returns a function that unsubscribes again
+ */
+export function onSoundSettingsChange(listener: (settings: SoundSettings) => void): () => void {
+  settingsListeners.add(listener);
+  return () => settingsListeners.delete(listener);
+}
+
+/**
+ * Node that background music connects to, null without Web Audio
+ */
+export function getMusicOutput(): AudioNode | null {
+  return musicGain;
+}
+
+async function loadSounds() {
+  if (!audioContext) return;
 
   // Load all sounds in parallel
   await Promise.all(
-    Object.entries(soundUrls).map(async ([type, url]) => {
+    Object.entries(SOUND_URLS).map(async ([type, url]) => {
       try {
         const response = await fetch(url);
         if (!response.ok) return;
@@ -52,27 +259,25 @@ async function loadSounds() {
     })
   );
 
+  // Sounds Web Audio can't decode are played with HTMLAudio
+  if (sounds.size < Object.keys(SOUND_URLS).length) useHtmlAudio = true;
+
   console.log('SoundPlayer loaded', sounds.size, 'sounds');
 }
 
 // Track last play times to prevent audio spam
-const lastPlayTimes = new Map<SoundType, number>();
+const lastPlayTimes = new Map<SoundName, number>();
 const MIN_PLAY_INTERVAL = 200;
 
 /**
- * Play a sound effect
- * Does nothing if sounds aren't loaded yet or on iOS
+ * Play a sound effect, samples take the pitch as playback rate
+ * Does nothing while muted, before the first gesture or if sounds aren't loaded yet
  */
-export function playSound(type: SoundType): void {
-  if (!audioContext || isIOS || !sounds.has(type)) {
+export function playSound(type: SoundName, params: Partial<SynthParams> = {}): void {
+  if (soundSettings.muted || !audioUnlocked) {
     return;
   }
 
-  // Resume audio context if suspended (browser autoplay policy)
-  if (audioContext.state === 'suspended') {
-    audioContext.resume().catch(console.warn);
-  }
-
   // Prevent audio spam
   const now = Date.now();
   const lastPlayTime = lastPlayTimes.get(type) || 0;
@@ -81,13 +286,96 @@ export function playSound(type: SoundType): void {
   }
   lastPlayTimes.set(type, now);
 
+  // iOS interrupts the context (calls, other apps), it comes back with the next resume
+  if (audioContext && audioContext.state !== 'running' && !useHtmlAudio) {
+    audioContext.resume().catch(console.warn);
+  }
+
+  const pitch = params.pitch ?? 1;
+  const volume = params.volume ?? 1;
+  const webAudioReady = audioContext !== null && sfxGain !== null && audioContext.state === 'running';
+
+  const synth = synthSounds.get(type);
+  if (synth) {
+    if (webAudioReady) {
+      try {
+        synth.voice(audioContext!, sfxGain!, audioContext!.currentTime, { pitch, volume });
+      } catch (error) {
+        console.warn(`Failed to play sound ${type}:`, error);
+      }
+    } else if (useHtmlAudio && synth.fallback) {
+      playHtmlAudio(synth.fallback);
+    }
+    return;
+  }
+
+  if (!isSampleSound(type)) {
+    console.warn(`Unknown sound ${type}`);
+    return;
+  }
+
+  if (!webAudioReady || !sounds.has(type)) {
+    if (useHtmlAudio) playHtmlAudio(type);
+    return;
+  }
+
   try {
     const buffer = sounds.get(type)!;
-    const sourceNode = audioContext.createBufferSource();
+    const sourceNode = audioContext!.createBufferSource();
     sourceNode.buffer = buffer;
-    sourceNode.connect(audioContext.destination);
+    sourceNode.playbackRate.value = pitch;
+
+    const gainNode = audioContext!.createGain();
+    gainNode.gain.value = volume;
+    sourceNode.connect(gainNode);
+    gainNode.connect(sfxGain!);
     sourceNode.start(0);
   } catch (error) {
     console.warn(`Failed to play sound ${type}:`, error);
   }
 }
+
+function isSampleSound(type: SoundName): type is SoundType {
+  return type in SOUND_URLS;
+}
+
+/**
+ * Pitch of synthesized effects: base pitch at the start speed, up to a fifth higher at full speed
+ */
+export function speedPitch(gameSpeed: number): number {
+  const progress = (gameSpeed - GAME_SPEED_START) / (GAME_SPEED_MAX - GAME_SPEED_START);
+  return 1 + SPEED_PITCH_RANGE * Math.min(Math.max(progress, 0), 1);
+}
+
+/**
+ * Play the sound effects of the game events, returns a function that stops them again
+ * The night chime has no sample, it plays in both effect styles
+ */
+export function subscribeSoundEffects(events: GameEventBus): () => void {
+  const synthesized = () => soundSettings.effects === SoundEffectStyle.SYNTH;
+  const playPress = () => playSound(synthesized() ? SynthSound.JUMP : SoundType.BUTTON_PRESS);
+
+  const unsubscribers = [
+    events.on('gameStart', playPress),
+    events.on('jump', ({ gameSpeed }) => {
+      if (synthesized()) {
+        playSound(SynthSound.JUMP, { pitch: speedPitch(gameSpeed) });
+      } else {
+        playSound(SoundType.BUTTON_PRESS);
+      }
+    }),
+    events.on('restart', playPress),
+    events.on('milestone', () => playSound(synthesized() ? SynthSound.MILESTONE : SoundType.SCORE_REACHED)),
+    events.on('nightStart', () => playSound(SynthSound.NIGHT_CHIME)),
+    events.on('crash', ({ obstacleType }) => {
+      if (!synthesized()) {
+        playSound(SoundType.HIT);
+      } else if (obstacleType === OBSTACLE_TYPE.PTERODACTYL) {
+        playSound(SynthSound.HIT_PTERODACTYL);
+      } else {
+        playSound(SynthSound.HIT_CACTUS);
+      }
+    })
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
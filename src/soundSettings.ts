@@ -0,0 +1,61 @@
+/**
+ * Sound settings
+ * Master, sound effect and music volumes, mute, the sound effect style and background music, persisted in localStorage
+ */
+
+export const SoundEffectStyle = {
+  ORIGINAL: 'original', // Samples of the original game
+  SYNTH: 'synth'        // Synthesized, pitch follows the game speed and every obstacle sounds different
+} as const;
+export type SoundEffectStyle = typeof SoundEffectStyle[keyof typeof SoundEffectStyle];
+
+export interface SoundSettings {
+  masterVolume: number; // 0..1, all volumes
+  sfxVolume: number;    // 0..1, jump, hit and score sounds
+  musicVolume: number;  // 0..1, background music
+  muted: boolean;
+  effects: SoundEffectStyle;
+  music: boolean;       // Background music, off by default
+}
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  masterVolume: 1,
+  sfxVolume: 1,
+  musicVolume: 0.6,
+  muted: false,
+  effects: SoundEffectStyle.ORIGINAL,
+  music: false
+};
+
+const SOUND_SETTINGS_KEY = 'tsl-dino-game-sound-settings';
+
+/**
+ * Stored settings, falling back to the defaults for missing or invalid values
+ */
+export function getSoundSettings(): SoundSettings {
+  const settings = { ...DEFAULT_SOUND_SETTINGS };
+  const stored = localStorage.getItem(SOUND_SETTINGS_KEY);
+  if (!stored) return settings;
+
+  try {
+    const json = JSON.parse(stored);
+    if (isVolume(json?.masterVolume)) settings.masterVolume = json.masterVolume;
+    if (isVolume(json?.sfxVolume)) settings.sfxVolume = json.sfxVolume;
+    if (isVolume(json?.musicVolume)) settings.musicVolume = json.musicVolume;
+    if (typeof json?.muted === 'boolean') settings.muted = json.muted;
+    if (Object.values(SoundEffectStyle).includes(json?.effects)) settings.effects = json.effects;
+    if (typeof json?.music === 'boolean') settings.music = json.music;
+  } catch (error) {
+    console.warn('Ignoring invalid sound settings:', error);
+  }
+
+  return settings;
+}
+
+export function setSoundSettings(settings: SoundSettings): void {
+  localStorage.setItem(SOUND_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+function isVolume(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
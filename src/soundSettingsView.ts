@@ -0,0 +1,133 @@
+/**
+ * Sound settings view
+ * Mute button and the volume panel with master, sound effect and music sliders, the sound effect style and the
+ * background music switch
+ */
+
+import { getActiveSoundSettings, onSoundSettingsChange, setActiveSoundSettings, toggleMute } from './soundPlayer.ts';
+import { SoundEffectStyle } from './soundSettings.ts';
+import type { SoundSettings } from './soundSettings.ts';
+
+type VolumeKey = 'masterVolume' | 'sfxVolume' | 'musicVolume';
+
+const VOLUME_LABELS: Record<VolumeKey, string> = {
+  masterVolume: 'Master',
+  sfxVolume: 'Effects',
+  musicVolume: 'Music'
+};
+
+const EFFECT_STYLE_LABELS: Record<SoundEffectStyle, string> = {
+  [SoundEffectStyle.ORIGINAL]: 'Original',
+  [SoundEffectStyle.SYNTH]: 'Synth'
+};
+
+interface SoundSettingsCallbacks {
+  onOpen?: () => void;
+}
+
+export function initSoundSettings(callbacks: SoundSettingsCallbacks = {}) {
+  const muteButton = document.getElementById('sound-mute-button') as HTMLButtonElement;
+  const openButton = document.getElementById('sound-settings-button') as HTMLButtonElement;
+  const panel = document.getElementById('sound-settings') as HTMLDivElement;
+  const list = document.getElementById('sound-settings-list') as HTMLDivElement;
+  const closeButton = document.getElementById('sound-settings-close') as HTMLButtonElement;
+
+  if (!muteButton || !openButton || !panel || !list || !closeButton) return;
+
+  const updateMuteButton = (settings: SoundSettings) => {
+    muteButton.textContent = settings.muted ? 'Sound Off' : 'Sound On';
+    muteButton.setAttribute('aria-pressed', String(settings.muted));
+  };
+  updateMuteButton(getActiveSoundSettings());
+  // The M key mutes too
+  onSoundSettingsChange(updateMuteButton);
+
+  muteButton.addEventListener('click', toggleMute);
+
+  openButton.addEventListener('click', () => {
+    if (panel.style.display !== 'none') {
+      panel.style.display = 'none';
+      return;
+    }
+    callbacks.onOpen?.();
+    renderVolumeList(list);
+    panel.style.display = 'block';
+  });
+
+  closeButton.addEventListener('click', () => {
+    panel.style.display = 'none';
+  });
+}
+
+function renderVolumeList(list: HTMLDivElement) {
+  list.replaceChildren();
+
+  for (const key of Object.keys(VOLUME_LABELS) as VolumeKey[]) {
+    const row = document.createElement('div');
+    row.className = 'sound-settings-row';
+
+    const label = document.createElement('span');
+    label.className = 'sound-settings-label';
+    label.textContent = VOLUME_LABELS[key];
+
+    const volume = Math.round(getActiveSoundSettings()[key] * 100);
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.min = '0';
+    input.max = '100';
+    input.step = '1';
+    input.value = String(volume);
+
+    const valueLabel = document.createElement('span');
+    valueLabel.className = 'sound-settings-value';
+    valueLabel.textContent = `${volume}%`;
+
+    // Volumes apply while dragging, so the change can be heard
+    input.addEventListener('input', () => {
+      valueLabel.textContent = `${input.value}%`;
+      setActiveSoundSettings({ ...getActiveSoundSettings(), [key]: Number(input.value) / 100 });
+    });
+
+    row.append(label, input, valueLabel);
+    list.appendChild(row);
+  }
+
+  const styleRow = document.createElement('div');
+  styleRow.className = 'sound-settings-row';
+
+  const styleLabel = document.createElement('span');
+  styleLabel.className = 'sound-settings-label';
+  styleLabel.textContent = 'Sounds';
+
+  const styleSelect = document.createElement('select');
+  for (const style of Object.values(SoundEffectStyle)) {
+    const option = document.createElement('option');
+    option.value = style;
+    option.textContent = EFFECT_STYLE_LABELS[style];
+    styleSelect.appendChild(option);
+  }
+  styleSelect.value = getActiveSoundSettings().effects;
+  styleSelect.addEventListener('change', () => {
+    setActiveSoundSettings({ ...getActiveSoundSettings(), effects: styleSelect.value as SoundEffectStyle });
+  });
+
+  styleRow.append(styleLabel, styleSelect);
+  list.appendChild(styleRow);
+
+  const musicRow = document.createElement('label');
+  musicRow.className = 'sound-settings-row';
+
+  const musicLabel = document.createElement('span');
+  musicLabel.className = 'sound-settings-label';
+  musicLabel.textContent = 'Music';
+
+  const musicToggle = document.createElement('input');
+  musicToggle.type = 'checkbox';
+  musicToggle.checked = getActiveSoundSettings().music;
+  musicToggle.addEventListener('change', () => {
+    setActiveSoundSettings({ ...getActiveSoundSettings(), music: musicToggle.checked });
+  });
+
+  musicRow.append(musicLabel, musicToggle);
+  list.appendChild(musicRow);
+}
@@ -0,0 +1,147 @@
+/**
+ * Sound synthesis
+ * Chiptune voices generated with Web Audio oscillators and noise instead of samples, so they can follow the game:
+ * jump and milestone beeps take a pitch, cacti and pterodactyls sound different when hit, nightfall has a chime.
+ * Voices only schedule nodes, soundPlayer.ts registers them and plays them through its mixer.
+ */
+
+export const SynthSound = {
+  JUMP: 'synth-jump',
+  MILESTONE: 'synth-milestone',
+  HIT_CACTUS: 'synth-hit-cactus',
+  HIT_PTERODACTYL: 'synth-hit-pterodactyl',
+  NIGHT_CHIME: 'synth-night-chime'
+} as const;
+export type SynthSound = typeof SynthSound[keyof typeof SynthSound];
+
+export interface SynthParams {
+  pitch: number;  // Frequency multiplier, 1 = base pitch
+  volume: number; // 0..1
+}
+
+// Schedules a sound starting at time into output
+export type SynthVoice = (context: BaseAudioContext, output: AudioNode, time: number, params: SynthParams) => void;
+
+const ATTACK = 0.005; // Seconds, avoids clicks at the start of every note
+
+// White noise, one second per context, reused by every hit (and the music's hi-hats)
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+export function getNoiseBuffer(context: BaseAudioContext): AudioBuffer {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+}
+
+/**
+ * Gain with a short attack and an exponential decay, connected to output
+ */
+function createEnvelope(context: BaseAudioContext, output: AudioNode, time: number, peak: number, duration: number): GainNode {
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, time);
+  envelope.gain.linearRampToValueAtTime(peak, time + ATTACK);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+  envelope.connect(output);
+  return envelope;
+}
+
+/**
+ * Oscillator sliding from one frequency to another
+ */
+function playTone(
+  context: BaseAudioContext,
+  output: AudioNode,
+  type: OscillatorType,
+  time: number,
+  duration: number,
+  fromFrequency: number,
+  toFrequency: number,
+  peak: number
+) {
+  const oscillator = context.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(fromFrequency, time);
+  oscillator.frequency.exponentialRampToValueAtTime(toFrequency, time + duration);
+  oscillator.connect(createEnvelope(context, output, time, peak, duration));
+  oscillator.start(time);
+  oscillator.stop(time + duration);
+}
+
+function playNoise(context: BaseAudioContext, output: AudioNode, time: number, duration: number, cutoff: number, peak: number) {
+  const noise = context.createBufferSource();
+  noise.buffer = getNoiseBuffer(context);
+
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.setValueAtTime(cutoff, time);
+  filter.frequency.exponentialRampToValueAtTime(cutoff / 8, time + duration);
+
+  noise.connect(filter);
+  filter.connect(createEnvelope(context, output, time, peak, duration));
+  noise.start(time);
+  noise.stop(time + duration);
+}
+
+// Short upward blip like the original jump sound
+const synthJump: SynthVoice = (context, output, time, { pitch, volume }) => {
+  playTone(context, output, 'square', time, 0.09, 440 * pitch, 880 * pitch, 0.25 * volume);
+};
+
+// Two rising beeps
+const synthMilestone: SynthVoice = (context, output, time, { pitch, volume }) => {
+  playTone(context, output, 'square', time, 0.08, 880 * pitch, 880 * pitch, 0.2 * volume);
+  playTone(context, output, 'square', time + 0.1, 0.12, 1320 * pitch, 1320 * pitch, 0.2 * volume);
+};
+
+// Dull thud: falling square and a noise burst
+const synthHitCactus: SynthVoice = (context, output, time, { pitch, volume }) => {
+  playTone(context, output, 'square', time, 0.25, 220 * pitch, 55 * pitch, 0.3 * volume);
+  playNoise(context, output, time, 0.15, 2000, 0.4 * volume);
+};
+
+// Squawk: falling sawtooth with a fast vibrato
+const synthHitPterodactyl: SynthVoice = (context, output, time, { pitch, volume }) => {
+  const oscillator = context.createOscillator();
+  oscillator.type = 'sawtooth';
+  oscillator.frequency.setValueAtTime(660 * pitch, time);
+  oscillator.frequency.exponentialRampToValueAtTime(220 * pitch, time + 0.3);
+
+  const vibrato = context.createOscillator();
+  vibrato.frequency.value = 30;
+  const vibratoDepth = context.createGain();
+  vibratoDepth.gain.value = 40 * pitch;
+  vibrato.connect(vibratoDepth);
+  vibratoDepth.connect(oscillator.frequency);
+
+  oscillator.connect(createEnvelope(context, output, time, 0.2 * volume, 0.3));
+  oscillator.start(time);
+  vibrato.start(time);
+  oscillator.stop(time + 0.3);
+  vibrato.stop(time + 0.3);
+};
+
+// Falling arpeggio (E minor) with a soft triangle wave
+const NIGHT_CHIME_NOTES = [1318.5, 987.8, 784.0, 659.3]; // E6, B5, G5, E5
+const NIGHT_CHIME_STEP = 0.14;
+
+const synthNightChime: SynthVoice = (context, output, time, { pitch, volume }) => {
+  NIGHT_CHIME_NOTES.forEach((frequency, index) => {
+    const noteTime = time + index * NIGHT_CHIME_STEP;
+    playTone(context, output, 'triangle', noteTime, 0.6, frequency * pitch, frequency * pitch, 0.2 * volume);
+  });
+};
+
+export const SYNTH_VOICES: Record<SynthSound, SynthVoice> = {
+  [SynthSound.JUMP]: synthJump,
+  [SynthSound.MILESTONE]: synthMilestone,
+  [SynthSound.HIT_CACTUS]: synthHitCactus,
+  [SynthSound.HIT_PTERODACTYL]: synthHitPterodactyl,
+  [SynthSound.NIGHT_CHIME]: synthNightChime
+};
@@ -1,280 +1,334 @@
 /**
- * T-Rex controls and jump physics
- * Handles player input and T-Rex state management
+ * T-Rex controls
+ * Input-mapping layer: keyboard, gamepad, touch gestures and mobile buttons trigger abstract actions
+ * (see inputBindings.ts), which are translated into simulation inputs
+ * Jump physics and state transitions live in gameSimulation.ts
+ * Bindings and touch settings are shared by the page, every game instance has its own controls
  */
 
-import { TREX_STATE } from './tsl/tslTRex.ts';
+import { GameInput } from './gameSimulation.ts';
 import { isMobileDevice } from './deviceFeatures';
+import {
+  findActiveGamepadBinding,
+  getInputBindings,
+  getTouchSettings,
+  INPUT_ACTIONS,
+  InputAction,
+  isGamepadBindingActive,
+  parseGamepadBinding,
+  TouchControlMode
+} from './inputBindings.ts';
+import type { InputBindings, TouchSettings } from './inputBindings.ts';
+import { TouchGestures } from './touchGestures.ts';
+
+let bindings: InputBindings = getInputBindings();
+let touchSettings: TouchSettings = getTouchSettings();
+
+// Binding capture for the settings panel: the next key or gamepad input is reported instead of triggering actions
+type CapturedBinding = { type: 'key'; code: string } | { type: 'gamepad'; binding: string };
+let captureCallback: ((binding: CapturedBinding) => void) | null = null;
+let gamepadIdleForCapture = false;
+
+// Controls of every live game instance
+const instances = new Set<TRexControls>();
 
-const JUMP_PHYSICS = {
-  INITIAL_JUMP_VELOCITY: 4.0,   // positive = upward (units/second)
-  GRAVITY: -9.0,                // negative = downward acceleration (units/second²)
-  DROP_VELOCITY: -1.5,          // negative = fast downward velocity (units/second)
-  GROUND_Y: 0,                  // ground level
-  MIN_JUMP_HEIGHT: 0.4,         // minimum height before can fast-fall
-  MAX_JUMP_HEIGHT: 3.5            // maximum jump height
+/**
+ * Switch between touch gestures and on-screen buttons or change the dead zones
+ */
+export function setActiveTouchSettings(settings: TouchSettings) {
+  touchSettings = settings;
+  for (const controls of instances) {
+    controls.applyTouchSettings();
+  }
 }
 
-// T-Rex state
-let jumping = false;
-let ducking = false;
-let jumpVelocity = 0;
-let reachedMinHeight = false;
-let speedDrop = false;
-let jumpOffsetY = 0;
-
-// Callbacks
-let onStateChange: ((state: number) => void) | null = null;
-let getCurrentState: (() => number) | null = null;
-let onRestart: (() => void) | null = null;
-
-const getState = (): number => getCurrentState?.() ?? TREX_STATE.RUNNING;
-
-export function initTRexControls(
-  tRexStateChangeCallback: (state: number) => void,
-  getCurrentTRexStateCallback?: () => number,
-  restartGameCallback?: () => void
-) {
-  onStateChange = tRexStateChangeCallback;
-  getCurrentState = getCurrentTRexStateCallback || null;
-  onRestart = restartGameCallback || null;
-
-  // Set up single consolidated event handlers
-  document.addEventListener('keydown', onKeyDown);
-  document.addEventListener('keyup', onKeyUp);
-
-  initMobileControls();
+/**
+ * Replace the active bindings (already pressed actions are released)
+ */
+export function setActiveInputBindings(newBindings: InputBindings) {
+  releaseAllInstances();
+  bindings = newBindings;
 }
 
-function handleJumpPress() {
-  const currentState = getState();
+export function captureNextBinding(callback: (binding: CapturedBinding) => void) {
+  releaseAllInstances();
+  captureCallback = callback;
+  gamepadIdleForCapture = false;
+}
 
-  // If crashed, restart the game
-  if (currentState === TREX_STATE.CRASHED) {
-    if (onRestart) {
-      resetTRexControls();
-      onRestart();
-    }
-    return;
-  }
+export function cancelBindingCapture() {
+  captureCallback = null;
+}
 
-  // If waiting, transition to running (game start)
-  if (currentState === TREX_STATE.WAITING) {
-    if (onStateChange) {
-      onStateChange(TREX_STATE.RUNNING);
-    }
-    return;
+function releaseAllInstances() {
+  for (const controls of instances) {
+    controls.releaseAllActions();
   }
+}
 
-  // Normal jump during gameplay
-  startJump();
+function finishCapture(binding: CapturedBinding) {
+  const callback = captureCallback;
+  captureCallback = null;
+  callback?.(binding);
 }
 
-function handleDuckPress() {
-  if (getState() === TREX_STATE.CRASHED) return;
+function actionsForKey(code: string): InputAction[] {
+  return INPUT_ACTIONS.filter(action => bindings[action].keys.includes(code));
+}
 
-  if (jumping) {
-    setSpeedDrop();
-  } else if (!jumping && !ducking) {
-    setDuck(true);
-  }
+interface TRexControlsOptions {
+  onInput: (input: GameInput) => void;
+  onPauseToggle?: () => void;
+  onMuteToggle?: () => void;
+  keyTarget?: Document | HTMLElement; // Keys are only read while the target (or something in it) has focus
+  gestureElement?: HTMLElement;
+  mobileButtons?: boolean;            // Use the page's mobile jump/duck buttons
 }
 
-function handleDuckRelease() {
-  if (getState() === TREX_STATE.CRASHED) return;
+export class TRexControls {
+  private options: TRexControlsOptions;
+  private keyTarget: Document | HTMLElement;
+  private touchGestures: TouchGestures | null = null;
+  private mobileButtonsCleanup: (() => void) | null = null;
+
+  // Sources (key, gamepad binding, touch button) currently holding each action
+  private activeSources = new Map<InputAction, Set<string>>(INPUT_ACTIONS.map(action => [action, new Set()]));
+
+  constructor(options: TRexControlsOptions) {
+    this.options = options;
+    this.keyTarget = options.keyTarget ?? document;
+
+    // Set up single consolidated event handlers
+    this.keyTarget.addEventListener('keydown', this.onKeyDown as EventListener);
+    this.keyTarget.addEventListener('keyup', this.onKeyUp as EventListener);
+    window.addEventListener('blur', this.releaseAllActions);
+
+    if (options.gestureElement) {
+      this.touchGestures = new TouchGestures(options.gestureElement, {
+        press: (action, source) => this.pressAction(action, source),
+        release: (action, source) => this.releaseAction(action, source)
+      }, touchSettings);
+    }
+    if (options.mobileButtons) {
+      this.initMobileControls();
+    }
 
-  speedDrop = false;
-  setDuck(false);
-}
+    instances.add(this);
+  }
 
-function onKeyDown(e: KeyboardEvent) {
-  if (e.code === 'Space' || e.code === 'ArrowUp') {
-    e.preventDefault();
+  dispose(): void {
+    this.releaseAllActions();
+    instances.delete(this);
 
-    // Check current state
-    const currentState = getState();
+    this.keyTarget.removeEventListener('keydown', this.onKeyDown as EventListener);
+    this.keyTarget.removeEventListener('keyup', this.onKeyUp as EventListener);
+    window.removeEventListener('blur', this.releaseAllActions);
+    this.touchGestures?.dispose();
+    this.mobileButtonsCleanup?.();
+  }
 
-    // If crashed, restart the game
-    if (currentState === TREX_STATE.CRASHED) {
-      if (onRestart) {
-        // Reset T-Rex controls state before restarting game
-        resetTRexControls();
-        onRestart();
-      }
-      return;
+  applyTouchSettings(): void {
+    this.touchGestures?.setSettings(touchSettings);
+    if (this.options.mobileButtons) updateMobileButtonsVisibility();
+  }
+
+  releaseAllActions = () => {
+    for (const [action, sources] of this.activeSources) {
+      if (sources.size === 0) continue;
+      sources.clear();
+      this.triggerAction(action, false);
     }
+  };
 
-    // If waiting, transition to running (game start)
-    if (currentState === TREX_STATE.WAITING) {
-      if (onStateChange) {
-        onStateChange(TREX_STATE.RUNNING);
-      }
-      // Don't jump on first press when starting the game
+  /**
+   * Gamepads have no events for buttons, poll them once per frame
+   * Games bound to an element only read gamepads while they have focus
+   */
+  pollGamepads(): void {
+    if (!navigator.getGamepads) return;
+    if (this.keyTarget !== document && !this.keyTarget.contains(document.activeElement)) return;
+
+    const gamepads = navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null);
+
+    if (captureCallback) {
+      pollGamepadCapture(gamepads);
       return;
     }
 
-    // Normal jump during gameplay
-    startJump();
-  } else if (e.code === 'ArrowDown') {
-    if (getState() === TREX_STATE.CRASHED) return; // no duck when crashed
-
-    if (jumping) {
-      // Speed drop during jump
-      setSpeedDrop();
-    } else if (!jumping && !ducking) {
-      // Duck when on ground
-      setDuck(true);
+    for (const action of INPUT_ACTIONS) {
+      for (const gamepadBinding of bindings[action].gamepad) {
+        const parsed = parseGamepadBinding(gamepadBinding);
+        if (!parsed) continue;
+
+        for (const gamepad of gamepads) {
+          const source = `gamepad${gamepad.index}:${gamepadBinding}`;
+          if (isGamepadBindingActive(gamepad, parsed)) {
+            this.pressAction(action, source);
+          } else {
+            this.releaseAction(action, source);
+          }
+        }
+      }
     }
   }
-}
 
-function onKeyUp(e: KeyboardEvent) {
-  if (e.code === 'Space' || e.code === 'ArrowUp') {
-    if (jumping) {
-      endJump();
+  private triggerAction(action: InputAction, pressed: boolean) {
+    const onInput = this.options.onInput;
+    switch (action) {
+      case InputAction.JUMP:
+        onInput(pressed ? GameInput.JUMP_PRESS : GameInput.JUMP_RELEASE);
+        break;
+      case InputAction.DUCK:
+        onInput(pressed ? GameInput.DUCK_PRESS : GameInput.DUCK_RELEASE);
+        break;
+      case InputAction.RESTART:
+        if (pressed) onInput(GameInput.RESTART);
+        break;
+      case InputAction.PAUSE:
+        if (pressed) this.options.onPauseToggle?.();
+        break;
+      case InputAction.MUTE:
+        if (pressed) this.options.onMuteToggle?.();
+        break;
     }
-  } else if (e.code === 'ArrowDown') {
-    if (getState() === TREX_STATE.CRASHED) return; // no duck when crashed
+  }
 
-    // Stop speed drop and ducking
-    speedDrop = false;
-    setDuck(false);
+  /**
+   * An action is pressed by its first source and released when its last source lets go
+   */
+  private pressAction(action: InputAction, source: string) {
+    const sources = this.activeSources.get(action)!;
+    const wasActive = sources.size > 0;
+    sources.add(source);
+    if (!wasActive) this.triggerAction(action, true);
   }
-}
 
-export function startJump() {
-  if (jumping) return;
+  private releaseAction(action: InputAction, source: string) {
+    const sources = this.activeSources.get(action)!;
+    if (!sources.delete(source)) return;
+    if (sources.size === 0) this.triggerAction(action, false);
+  }
 
-  jumping = true;
-  jumpVelocity = JUMP_PHYSICS.INITIAL_JUMP_VELOCITY;
-  reachedMinHeight = false;
-  speedDrop = false;
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (captureCallback) {
+      e.preventDefault();
+      if (!e.repeat) finishCapture({ type: 'key', code: e.code });
+      return;
+    }
 
-  if (onStateChange) {
-    onStateChange(TREX_STATE.JUMPING);
-  }
-}
+    // Typing a player name or a debug value doesn't control the game
+    if (isEditableElement(e.target)) return;
 
-export function endJump() {
-  // Allow fast-fall if minimum height reached
-  if (reachedMinHeight && jumpVelocity > JUMP_PHYSICS.DROP_VELOCITY) {
-    jumpVelocity = JUMP_PHYSICS.DROP_VELOCITY;
-  }
-}
+    const actions = actionsForKey(e.code);
+    if (actions.length === 0) return;
+    e.preventDefault();
 
-export function setSpeedDrop() {
-  speedDrop = true;
-  jumpVelocity = -2.0; // Force downward (units/second)
-}
+    for (const action of actions) {
+      // Held jump/duck keys repeat their press like before (e.g. jumping again on landing)
+      if (e.repeat && (action === InputAction.JUMP || action === InputAction.DUCK)) {
+        this.triggerAction(action, true);
+      } else if (!e.repeat) {
+        this.pressAction(action, `key:${e.code}`);
+      }
+    }
+  };
 
-export function setDuck(isDucking: boolean) {
-  if (isDucking && !ducking) {
-    ducking = true;
-    if (onStateChange) {
-      onStateChange(TREX_STATE.DUCKING);
+  private onKeyUp = (e: KeyboardEvent) => {
+    for (const action of INPUT_ACTIONS) {
+      this.releaseAction(action, `key:${e.code}`);
     }
-  } else if (!isDucking && ducking) {
-    ducking = false;
-    if (onStateChange) {
-      onStateChange(TREX_STATE.RUNNING);
+  };
+
+  private initMobileControls() {
+    const duckButton = document.getElementById('mobile-duck-button') as HTMLButtonElement;
+    const jumpButton = document.getElementById('mobile-jump-button') as HTMLButtonElement;
+
+    if (!duckButton || !jumpButton) return;
+
+    // Duck button event listeners
+    const handleDuckDown = (e: Event) => {
+      e.preventDefault();
+      this.pressAction(InputAction.DUCK, 'touch:duck');
+    };
+
+    const handleDuckUp = (e: Event) => {
+      e.preventDefault();
+      this.releaseAction(InputAction.DUCK, 'touch:duck');
+    };
+
+    const handleJump = (e: Event) => {
+      e.preventDefault();
+      this.pressAction(InputAction.JUMP, 'touch:jump');
+    };
+    const handleJumpRelease = (e: Event) => {
+      e.preventDefault();
+      this.releaseAction(InputAction.JUMP, 'touch:jump');
+    };
+    const handleJumpClick = (e: Event) => {
+      handleJump(e);
+      handleJumpRelease(e);
+    };
+
+    const listeners: [HTMLElement | Window, string, (e: Event) => void][] = [
+      // Duck button - handle both press and release
+      [duckButton, 'touchstart', handleDuckDown],
+      [duckButton, 'touchend', handleDuckUp],
+      // Also handle mouse events for testing on desktop
+      [duckButton, 'mousedown', handleDuckDown],
+      [duckButton, 'mouseup', handleDuckUp],
+      [duckButton, 'mouseleave', handleDuckUp],
+      [jumpButton, 'touchstart', handleJump],
+      [jumpButton, 'touchend', handleJumpRelease],
+      [jumpButton, 'click', handleJumpClick],
+      [window, 'resize', updateMobileButtonsVisibility]
+    ];
+    for (const [target, type, listener] of listeners) {
+      target.addEventListener(type, listener);
     }
+    this.mobileButtonsCleanup = () => {
+      for (const [target, type, listener] of listeners) {
+        target.removeEventListener(type, listener);
+      }
+    };
+
+    updateMobileButtonsVisibility();
   }
 }
 
-function resetTRexControls() {
-  jumping = false;
-  ducking = false;
-  jumpVelocity = 0;
-  reachedMinHeight = false;
-  speedDrop = false;
-  jumpOffsetY = 0;
+function isEditableElement(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
 }
 
-export function controlsTRex(deltaTimeSeconds: number): number {
-  if (!jumping) return jumpOffsetY;
-
-  // Update position based on velocity (framerate independent)
-  jumpOffsetY += jumpVelocity * deltaTimeSeconds;
-
-  // Apply gravity (framerate independent)
-  jumpVelocity += JUMP_PHYSICS.GRAVITY * deltaTimeSeconds;
-
-  // Check if minimum height reached
-  if (jumpOffsetY > JUMP_PHYSICS.MIN_JUMP_HEIGHT || speedDrop) {
-    reachedMinHeight = true;
-  }
+function pollGamepadCapture(gamepads: Gamepad[]) {
+  const activeBinding = gamepads.map(findActiveGamepadBinding).find(binding => binding !== null) ?? null;
 
-  // Check if maximum height reached
-  if (jumpOffsetY > JUMP_PHYSICS.MAX_JUMP_HEIGHT || speedDrop) {
-    endJump();
+  // Wait until everything is released first, so a held button doesn't get captured right away
+  if (!gamepadIdleForCapture) {
+    gamepadIdleForCapture = activeBinding === null;
+    return;
   }
 
-  // Landing - back to ground
-  if (jumpOffsetY <= JUMP_PHYSICS.GROUND_Y) {
-    jumpOffsetY = JUMP_PHYSICS.GROUND_Y;
-    jumping = false;
-    jumpVelocity = 0;
-    reachedMinHeight = false;
-
-    // Speed drop becomes duck when landing
-    if (speedDrop) {
-      speedDrop = false;
-      setDuck(true);
-    } else if (onStateChange) {
-      onStateChange(TREX_STATE.RUNNING);
-    }
+  if (activeBinding) {
+    finishCapture({ type: 'gamepad', binding: activeBinding });
   }
-
-  return jumpOffsetY;
 }
 
-function initMobileControls() {
+function updateMobileButtonsVisibility() {
   const duckButton = document.getElementById('mobile-duck-button') as HTMLButtonElement;
   const jumpButton = document.getElementById('mobile-jump-button') as HTMLButtonElement;
 
   if (!duckButton || !jumpButton) return;
 
-  const updateVisibility = () => {
-    const isMobile = isMobileDevice({
-      screenBreakpoint: 768,
-      requireTouch: false,  // Also show on small screens without touch
-      checkUserAgent: true
-    });
-
-    // Set display based on isMobileDevice result
-    const display = isMobile ? 'flex' : 'none';
-    duckButton.style.display = display;
-    jumpButton.style.display = display;
-  };
+  const isMobile = isMobileDevice({
+    screenBreakpoint: 768,
+    requireTouch: false,  // Also show on small screens without touch
+    checkUserAgent: true
+  });
 
-  // Duck button event listeners
-  const handleDuckDown = (e: Event) => {
-    e.preventDefault();
-    handleDuckPress();
-  };
-
-  const handleDuckUp = (e: Event) => {
-    e.preventDefault();
-    handleDuckRelease();
-  };
-
-  // Duck button - handle both press and release
-  duckButton.addEventListener('touchstart', handleDuckDown);
-  duckButton.addEventListener('touchend', handleDuckUp);
-
-  // Also handle mouse events for testing on desktop
-  duckButton.addEventListener('mousedown', handleDuckDown);
-  duckButton.addEventListener('mouseup', handleDuckUp);
-  duckButton.addEventListener('mouseleave', handleDuckUp);
-
-  const handleJump = (e: Event) => {
-    e.preventDefault();
-    handleJumpPress();
-  };
-  jumpButton.addEventListener('touchstart', handleJump);
-  jumpButton.addEventListener('click', handleJump);
-
-  updateVisibility();
-  window.addEventListener('resize', updateVisibility);
+  // Buttons only show on mobile when they are the selected touch controls
+  const display = isMobile && touchSettings.mode === TouchControlMode.BUTTONS ? 'flex' : 'none';
+  duckButton.style.display = display;
+  jumpButton.style.display = display;
 }
-
@@ -0,0 +1,147 @@
+/**
+ * Touch gesture controller for the game canvas
+ * A touch jumps right away and holding it makes a long jump, swiping down turns it into a duck (speed drop in the
+ * air), two-finger tap to pause. Every finger is tracked on its own.
+ */
+
+import { InputAction, TouchControlMode } from './inputBindings.ts';
+import type { TouchSettings } from './inputBindings.ts';
+
+export const GESTURE_CONFIG = {
+  TWO_FINGER_DELAY: 120 // Milliseconds in which a second finger turns a touch into a two-finger tap
+} as const;
+
+type GestureState = 'jump' | 'duck' | 'multi';
+
+interface TouchGesture {
+  startX: number;
+  startY: number;
+  startTime: number; // Event timestamp of the touch
+  state: GestureState;
+}
+
+interface TouchGestureCallbacks {
+  press: (action: InputAction, source: string) => void;
+  release: (action: InputAction, source: string) => void;
+}
+
+/**
+ * Gestures on one element, every game instance has its own
+ */
+export class TouchGestures {
+  private element: HTMLElement;
+  private callbacks: TouchGestureCallbacks;
+  private settings: TouchSettings;
+  private gestures = new Map<number, TouchGesture>();
+
+  constructor(element: HTMLElement, gestureCallbacks: TouchGestureCallbacks, touchSettings: TouchSettings) {
+    this.element = element;
+    this.callbacks = gestureCallbacks;
+    this.settings = touchSettings;
+
+    element.addEventListener('pointerdown', this.onPointerDown);
+    element.addEventListener('pointermove', this.onPointerMove);
+    element.addEventListener('pointerup', this.onPointerEnd);
+    element.addEventListener('pointercancel', this.onPointerEnd);
+  }
+
+  setSettings(touchSettings: TouchSettings): void {
+    this.settings = touchSettings;
+    if (this.settings.mode !== TouchControlMode.GESTURES) {
+      for (const pointerId of [...this.gestures.keys()]) {
+        this.endGesture(pointerId, false);
+      }
+    }
+  }
+
+  dispose(): void {
+    for (const pointerId of [...this.gestures.keys()]) {
+      this.endGesture(pointerId, false);
+    }
+    this.element.removeEventListener('pointerdown', this.onPointerDown);
+    this.element.removeEventListener('pointermove', this.onPointerMove);
+    this.element.removeEventListener('pointerup', this.onPointerEnd);
+    this.element.removeEventListener('pointercancel', this.onPointerEnd);
+  }
+
+  private isInEdgeDeadZone(e: PointerEvent): boolean {
+    const edge = this.settings.edgeDeadZone;
+    const rect = this.element.getBoundingClientRect();
+    return e.clientX < rect.left + edge || e.clientY < rect.top + edge
+      || e.clientX > rect.right - edge || e.clientY > rect.bottom - edge;
+  }
+
+  private onPointerDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch' || this.settings.mode !== TouchControlMode.GESTURES) return;
+    if (this.isInEdgeDeadZone(e)) return;
+
+    e.preventDefault();
+
+    // A second finger right after another one turns both into a two-finger tap, the first one lets go of its jump
+    const tappingGestures = [...this.gestures.entries()].filter(([, gesture]) => gesture.state === 'multi'
+      || (gesture.state === 'jump' && e.timeStamp - gesture.startTime < GESTURE_CONFIG.TWO_FINGER_DELAY));
+    if (tappingGestures.length > 0) {
+      for (const [pointerId, gesture] of tappingGestures) {
+        if (gesture.state === 'jump') this.callbacks.release(InputAction.JUMP, source(pointerId));
+        gesture.state = 'multi';
+      }
+      this.gestures.set(e.pointerId, { startX: e.clientX, startY: e.clientY, startTime: e.timeStamp, state: 'multi' });
+      return;
+    }
+
+    // Jump on touch, the gesture only decides when it is released
+    this.gestures.set(e.pointerId, { startX: e.clientX, startY: e.clientY, startTime: e.timeStamp, state: 'jump' });
+    this.callbacks.press(InputAction.JUMP, source(e.pointerId));
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    const gesture = this.gestures.get(e.pointerId);
+    if (!gesture || gesture.state !== 'jump') return;
+
+    // Swiping up keeps holding the jump
+    const deltaX = e.clientX - gesture.startX;
+    const deltaY = e.clientY - gesture.startY;
+    const deadZone = this.settings.swipeDeadZone;
+    if (deltaY <= deadZone || deltaY <= Math.abs(deltaX)) return;
+
+    // Swipe down: the jump ends in a speed drop, ducking on landing until the finger is lifted
+    gesture.state = 'duck';
+    this.callbacks.release(InputAction.JUMP, source(e.pointerId));
+    this.callbacks.press(InputAction.DUCK, source(e.pointerId));
+  };
+
+  private onPointerEnd = (e: PointerEvent) => {
+    if (!this.gestures.has(e.pointerId)) return;
+    this.endGesture(e.pointerId, e.type === 'pointerup');
+  };
+
+  /**
+   * Release whatever the finger held, a quickly lifted touch makes a short jump
+   */
+  private endGesture(pointerId: number, completed: boolean) {
+    const gesture = this.gestures.get(pointerId)!;
+    this.gestures.delete(pointerId);
+
+    switch (gesture.state) {
+      case 'jump':
+        this.callbacks.release(InputAction.JUMP, source(pointerId));
+        break;
+      case 'duck':
+        this.callbacks.release(InputAction.DUCK, source(pointerId));
+        break;
+      case 'multi': {
+        // Pause once the last finger of a two-finger tap is lifted
+        const fingersLeft = [...this.gestures.values()].some(other => other.state === 'multi');
+        if (completed && !fingersLeft) {
+          this.callbacks.press(InputAction.PAUSE, source(pointerId));
+          this.callbacks.release(InputAction.PAUSE, source(pointerId));
+        }
+        break;
+      }
+    }
+  }
+}
+
+function source(pointerId: number): string {
+  return `touch:${pointerId}`;
+}
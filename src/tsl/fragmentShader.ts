@@ -3,26 +3,35 @@
  * Handles all sprite rendering, collision detection, and visual effects
  */
 
-import { color, float, Fn, If, mix, negate, positionLocal, time, vec2, vec3 } from 'three/tsl';
+import { atomicAdd, color, float, Fn, If, mix, negate, positionLocal, uint, vec2, vec3 } from 'three/tsl';
 import type { ShaderNodeObject } from 'three/tsl';
 import { tslHorizonRepeating } from './tslHorizon.ts';
 import { tslGameOver, tslRestart } from './tslGameOver.ts';
-import { tslTRex, TREX_STATE } from './tslTRex.ts';
+import { tslTRex } from './tslTRex.ts';
 import { tslCloudField } from './tslCloud.ts';
 import { tslScore } from './tslScore.ts';
 import { calculateNightMode } from '../nightMode.ts';
+import { TREX_STATE } from '../gameSimulation.ts';
 import { tslMoon } from './tslMoon.ts';
 import { tslStars } from './tslStars.ts';
 import { tslObstacle } from './tslObstacle.ts';
+import { tslPauseOverlay } from './tslPause.ts';
 
 interface FragmentShaderUniforms {
   spriteTextureNode: ShaderNodeObject<any>;
   uniformDistanceRan: ShaderNodeObject<any>;
   uniformTRexState: ShaderNodeObject<any>;
+  uniformPaused: ShaderNodeObject<any>;
+  uniformAnimTime: ShaderNodeObject<any>;
   uniformJumpOffsetY: ShaderNodeObject<any>;
   uniformScore: ShaderNodeObject<any>;
+  uniformSeed: ShaderNodeObject<any>;
+  uniformObstacles: ShaderNodeObject<any>;
+  uniformObstacleCount: ShaderNodeObject<any>;
   uniformHiScore: ShaderNodeObject<any>;
   uniformCollisionColor: ShaderNodeObject<any>;
+  collisionCounter: ShaderNodeObject<any>;
+  uniformCollisionPass: ShaderNodeObject<any>;
 }
 
 export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
@@ -30,13 +39,20 @@ export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
     spriteTextureNode,
     uniformDistanceRan,
     uniformTRexState,
+    uniformPaused,
+    uniformAnimTime,
     uniformJumpOffsetY,
     uniformScore,
+    uniformSeed,
+    uniformObstacles,
+    uniformObstacleCount,
     uniformHiScore,
-    uniformCollisionColor
+    uniformCollisionColor,
+    collisionCounter,
+    uniformCollisionPass
   } = uniforms;
 
-  return Fn(() => {
+  return Fn((builder) => {
     const p = positionLocal.toVar();
     const gameTime = uniformDistanceRan;
 
@@ -44,10 +60,13 @@ export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
     const nightData = calculateNightMode(uniformScore);
     const nightProgress = nightData.x;
 
+    // Small per-seed offset for the cosmetic sin hashes (large inputs lose sin precision)
+    const seedOffset = float(uniformSeed.bitAnd(uint(1023)));
+
     const finalColour = color('#f7f7f7');
 
     // Render stars (background layer, behind everything)
-    const starsSprite = tslStars(spriteTextureNode, p, gameTime, nightData);
+    const starsSprite = tslStars(spriteTextureNode, p, gameTime, nightData, seedOffset);
     finalColour.assign(mix(finalColour, starsSprite.xyz, starsSprite.w));
 
     // Render moon (behind clouds but in front of stars)
@@ -55,7 +74,7 @@ export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
     finalColour.assign(mix(finalColour, moonSprite.xyz, moonSprite.w));
 
     // Cloud field with parallax scrolling
-    const cloudsSprite = tslCloudField(spriteTextureNode, p, gameTime, 1.0);
+    const cloudsSprite = tslCloudField(spriteTextureNode, p, gameTime, 1.0, seedOffset);
     finalColour.assign(mix(finalColour, cloudsSprite.xyz, cloudsSprite.w));
 
     // Position horizon like in the original game
@@ -66,15 +85,15 @@ export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
 
     // Pass 1: Render T-Rex BEHIND obstacles (back layer)
     const trexPos = p.sub(vec2(-2.79, uniformJumpOffsetY.add(-0.41)));
-    const trexSpriteBack = tslTRex(spriteTextureNode, trexPos, 1, uniformTRexState, time);
+    const trexSpriteBack = tslTRex(spriteTextureNode, trexPos, 1, uniformTRexState, uniformAnimTime);
     const backLayerColor = mix(finalColour, trexSpriteBack.xyz, trexSpriteBack.w);
 
     // Render obstacles on top of back layer
-    const obstacleSprite = tslObstacle(spriteTextureNode, p, gameTime, 1, uniformScore);
+    const obstacleSprite = tslObstacle(spriteTextureNode, p, gameTime, 1, uniformObstacles, uniformObstacleCount);
     const backLayerWithObstacles = mix(backLayerColor, obstacleSprite.xyz, obstacleSprite.w);
 
     // Pass 2: Render T-Rex IN FRONT of obstacles (front layer)
-    const trexSpriteFront = tslTRex(spriteTextureNode, trexPos, 1, uniformTRexState, time);
+    const trexSpriteFront = tslTRex(spriteTextureNode, trexPos, 1, uniformTRexState, uniformAnimTime);
     const frontLayerColor = mix(backLayerWithObstacles, trexSpriteFront.xyz, trexSpriteFront.w);
 
     // Collision detection: Compare back and front layers
@@ -82,6 +101,13 @@ export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
     const maxDifference = colorDifference.x.max(colorDifference.y).max(colorDifference.z);
     const hasCollision = maxDifference.greaterThan(float(0.01)); // Threshold for color difference
 
+    // Count collision pixels of the collision pass (storage writes need the WebGPU backend)
+    if ('isWebGPUBackend' in builder.renderer.backend) {
+      If(hasCollision.and(uniformCollisionPass.equal(1)), () => {
+        atomicAdd(collisionCounter.element(0), uint(1));
+      });
+    }
+
     // Apply the front layer as final color
     finalColour.assign(frontLayerColor);
 
@@ -104,6 +130,11 @@ export const createFragmentShader = (uniforms: FragmentShaderUniforms) => {
       finalColour.assign(mix(finalColour, restartSprite.xyz, restartSprite.w));
     });
 
+    // Paused overlay: dimmed scene with a pause symbol in the center
+    If(uniformPaused.equal(1), () => {
+      finalColour.assign(tslPauseOverlay(finalColour, color('#f7f7f7'), p));
+    });
+
     // Apply night mode color inversion
     const invertedColour = vec3(1.0).sub(finalColour);
     finalColour.assign(mix(finalColour, invertedColour, nightProgress));
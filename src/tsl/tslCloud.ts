@@ -53,8 +53,9 @@ const BACKGROUND_SPEED = float(CLOUD_CONFIG.BACKGROUND_SPEED);
 /**
  * Procedural cloud field generation using hash-based positioning
  * Creates infinite scrolling cloud layer with pseudo-random distribution
+ * seedOffset shifts the hash input so every course seed gets its own sky
  */
-export const tslCloudField = Fn(([spriteTexture, position, gameTime, scale]: [any, any, any, any]) => {
+export const tslCloudField = Fn(([spriteTexture, position, gameTime, scale, seedOffset]: [any, any, any, any, any]) => {
   // Apply parallax scrolling (clouds move slower than ground)
   const scrollOffset = gameTime.mul(BACKGROUND_SPEED);
   const worldX = position.x.add(scrollOffset);
@@ -63,10 +64,11 @@ export const tslCloudField = Fn(([spriteTexture, position, gameTime, scale]: [an
   const gridIndex = floor(worldX.div(GRID_SPACING));
 
   // Hash-based cloud existence check
-  const cloudExists = hash(gridIndex).greaterThan(SPAWN_THRESHOLD);
+  const cloudHashInput = gridIndex.add(seedOffset);
+  const cloudExists = hash(cloudHashInput).greaterThan(SPAWN_THRESHOLD);
 
   // Hash-based vertical positioning within visible sky bounds
-  const yOffset = SKY_TOP_BOUND.add(hash2(gridIndex).mul(SKY_RANGE));
+  const yOffset = SKY_TOP_BOUND.add(hash2(cloudHashInput).mul(SKY_RANGE));
 
   // Calculate position within current cloud grid cell
   const cellCenter = gridIndex.mul(GRID_SPACING).add(GRID_SPACING.div(2));
@@ -0,0 +1,43 @@
+/**
+ * Pause TSL utilities for TSL shader system
+ * The sprite sheet has no pause graphic, so the pause symbol is drawn with SDFs
+ */
+
+import { color, float, Fn, min, mix, smoothstep, vec2, vec4 } from 'three/tsl';
+import type { FnArguments } from '../types.ts';
+import { sdRoundedBox } from './sdf2d.ts';
+
+export const PAUSE_CONFIG = {
+  BAR_HALF_SIZE: [0.035, 0.12], // Half width/height of each bar (world units)
+  BAR_OFFSET_X: 0.07,           // Bar center distance from the symbol center
+  CORNER_RADIUS: 0.01,
+  EDGE_SOFTNESS: 0.004,
+  DIM_AMOUNT: 0.5               // How much the scene fades behind the symbol
+} as const;
+
+// Same dark grey as the original sprites
+const PAUSE_COLOR = color('#535353');
+
+/**
+ * Pause symbol (two rounded bars) centered on p, alpha is the coverage
+ */
+export const tslPauseSymbol = Fn(([p]: FnArguments) => {
+  const halfSize = vec2(PAUSE_CONFIG.BAR_HALF_SIZE[0], PAUSE_CONFIG.BAR_HALF_SIZE[1]);
+  const radius = vec4(PAUSE_CONFIG.CORNER_RADIUS);
+
+  const leftBar = sdRoundedBox(p.add(vec2(PAUSE_CONFIG.BAR_OFFSET_X, 0)), halfSize, radius);
+  const rightBar = sdRoundedBox(p.sub(vec2(PAUSE_CONFIG.BAR_OFFSET_X, 0)), halfSize, radius);
+  const distance = min(leftBar, rightBar);
+
+  const alpha = float(1).sub(smoothstep(float(0), float(PAUSE_CONFIG.EDGE_SOFTNESS), distance));
+  return vec4(PAUSE_COLOR, alpha);
+});
+
+/**
+ * Dimmed scene with the pause symbol on top
+ */
+export const tslPauseOverlay = Fn(([sceneColour, backgroundColour, p]: FnArguments) => {
+  const dimmed = mix(sceneColour, backgroundColour, float(PAUSE_CONFIG.DIM_AMOUNT));
+  const symbol = tslPauseSymbol(p);
+  return mix(dimmed, symbol.xyz, symbol.w);
+});
@@ -22,9 +22,9 @@ const hash = Fn(([n]: FnArguments) => {
   return fract(sin(n).mul(43758.5453));
 });
 
-export const tslStars = Fn(([spriteTexture, p, gameTime, nightData]: FnArguments) => {
+export const tslStars = Fn(([spriteTexture, p, gameTime, nightData, seedOffset]: FnArguments) => {
   const nightProgress = nightData.x;
-  const nightCount = nightData.y;
+  const nightCount = nightData.y.add(seedOffset); // Course seed picks a different sky per run
 
   const result = vec4(0);
 
@@ -5,15 +5,7 @@
 import { float, floor, Fn, hash, mix, mod, select, vec2 } from 'three/tsl';
 import type { FnArguments } from '../types.ts';
 import { sampleSprite } from './tslSpriteUtils.ts';
-
-// T-Rex states (matching Chrome dino game)
-export const TREX_STATE = {
-  WAITING: 0,
-  RUNNING: 1,
-  JUMPING: 2,
-  DUCKING: 3,
-  CRASHED: 4
-} as const;
+import { TREX_STATE } from '../gameSimulation.ts';
 
 // Animation speeds (frames per second) - matching Chrome dino game
 export const TREX_ANIMATION_SPEED = {
@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_EMBED_ORIGINS?: string; // Comma-separated origins that may embed and control the game (iframeApi.ts)
+}
@@ -4,6 +4,21 @@ import { createHtmlPlugin } from 'vite-plugin-html';
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
 
+  // `vite build --mode embed` bundles src/embed.ts (<tsl-dino-game> and createDinoGame) for other pages
+  if (mode === 'embed') {
+    return {
+      publicDir: false,
+      build: {
+        outDir: 'dist/embed',
+        lib: {
+          entry: 'src/embed.ts',
+          formats: ['es'],
+          fileName: 'tsl-dino-game'
+        }
+      }
+    };
+  }
+
   const siteUrl = env.VITE_SITE_URL || '';
   const analyticsScript = (mode === 'production' && env.VITE_ANALYTICS_SCRIPT) || '';
 